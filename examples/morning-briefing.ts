@@ -9,6 +9,9 @@
  * - Linux: cron or systemd timer
  * - Windows: Task Scheduler
  *
+ * The relay can send briefings itself, with its memory and chats: see the
+ * "briefing" job type in config/schedule.example.json.
+ *
  * Run manually: bun run examples/morning-briefing.ts
  */
 
@@ -8,6 +8,9 @@
  * Run periodically (e.g., every 30 minutes) and Claude
  * intelligently decides whether to message you.
  *
+ * The relay can run check-ins itself, with its memory and chats: see the
+ * "checkin" job type in config/schedule.example.json.
+ *
  * Run: bun run examples/smart-checkin.ts
  */
 
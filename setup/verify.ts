@@ -91,7 +91,7 @@ async function main() {
   const supaKey = env.SUPABASE_ANON_KEY || "";
 
   if (!supaUrl || supaUrl.includes("your_")) {
-    warn("SUPABASE_URL not set (memory won't persist)");
+    warn("SUPABASE_URL not set (memory uses MCP or local SQLite)");
   } else if (!supaKey || supaKey.includes("your_")) {
     warn("SUPABASE_ANON_KEY not set");
   } else {
@@ -0,0 +1,243 @@
+/**
+ * Access Control
+ *
+ * Users across platforms ("telegram:12345", "discord:6789", "slack:U123")
+ * with one of three roles:
+ *   owner    - everything, incl. /allow, /revoke and /invite
+ *   member   - chat with Claude, within the member limits
+ *   readonly - chat with Claude using read-only tools
+ *
+ * Owners come from OWNER_IDS (and TELEGRAM_USER_ID for existing setups);
+ * everyone else is added with /allow or joins with an invite code (/join).
+ * Users are stored in RELAY_DIR/access.json.
+ *
+ * Per-role limits (workspaces, tools, daily budget per user) have built-in
+ * defaults and can be overridden in config/roles.json.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { randomBytes } from "crypto";
+import type { Platform } from "./sessions.ts";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const PROJECT_ROOT = dirname(dirname(import.meta.path));
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
+const ACCESS_FILE = join(RELAY_DIR, "access.json");
+const ROLES_FILE = process.env.ROLES_FILE || join(PROJECT_ROOT, "config", "roles.json");
+
+const OWNER_IDS = [
+  ...(process.env.OWNER_IDS || "").split(",").map((id) => id.trim()).filter(Boolean),
+  ...(process.env.TELEGRAM_USER_ID ? [`telegram:${process.env.TELEGRAM_USER_ID}`] : []),
+];
+const INVITE_TTL_MS = Number(process.env.INVITE_TTL_HOURS || 168) * 60 * 60 * 1000;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type Role = "owner" | "member" | "readonly";
+
+export const ROLES: Role[] = ["owner", "member", "readonly"];
+
+export interface RoleLimits {
+  /** Workspaces the role may use ("*" = all) */
+  workspaces: string[];
+  /** Added to the tool policy (see permissions.ts) */
+  allow: string[];
+  deny: string[];
+  /** Overrides the policy's approvals setting if set */
+  approvals?: boolean;
+  /** Spend limit per user per day in USD (0 = none) */
+  dailyBudgetUsd: number;
+}
+
+export interface AccessUser {
+  role: Role;
+  name?: string;
+  addedAt: string;
+  addedBy: string;
+}
+
+interface Invite {
+  role: Role;
+  createdBy: string;
+  expiresAt: string;
+}
+
+interface AccessStore {
+  users: Record<string, AccessUser>;
+  invites: Record<string, Invite>;
+}
+
+const DEFAULT_LIMITS: Record<Role, RoleLimits> = {
+  owner: { workspaces: ["*"], allow: [], deny: [], dailyBudgetUsd: 0 },
+  member: { workspaces: ["*"], allow: [], deny: [], dailyBudgetUsd: 0 },
+  readonly: {
+    workspaces: ["*"],
+    allow: [],
+    deny: ["Edit", "Write", "MultiEdit", "NotebookEdit", "Bash"],
+    approvals: false,
+    dailyBudgetUsd: 0,
+  },
+};
+
+const RANK: Record<Role, number> = { readonly: 1, member: 2, owner: 3 };
+
+// ============================================================
+// STORE
+// ============================================================
+
+let store: AccessStore | null = null;
+
+async function loadStore(): Promise<AccessStore> {
+  if (store) return store;
+
+  try {
+    const data = JSON.parse(await readFile(ACCESS_FILE, "utf-8"));
+    store = { users: data.users || {}, invites: data.invites || {} };
+  } catch {
+    store = { users: {}, invites: {} };
+  }
+  return store;
+}
+
+async function saveStore(): Promise<void> {
+  if (!store) return;
+  try {
+    await writeFile(ACCESS_FILE, JSON.stringify(store, null, 2));
+  } catch (error) {
+    console.error("[Access] Save error:", error);
+  }
+}
+
+// ============================================================
+// USERS AND ROLES
+// ============================================================
+
+export function userKey(platform: Platform, userId: string): string {
+  return `${platform}:${userId}`;
+}
+
+/**
+ * True while no owner or user is configured at all. The relay is then open
+ * to everyone who can reach it, as before access control existed.
+ */
+export async function isOpenAccess(): Promise<boolean> {
+  return !OWNER_IDS.length && !Object.keys((await loadStore()).users).length;
+}
+
+export async function getRole(user: string): Promise<Role | null> {
+  if (OWNER_IDS.includes(user)) return "owner";
+  return (await loadStore()).users[user]?.role ?? null;
+}
+
+export function hasRole(role: Role | null, required: Role): boolean {
+  return role !== null && RANK[role] >= RANK[required];
+}
+
+export function parseRole(name: string): Role | null {
+  const role = name.trim().toLowerCase().replace("-", "");
+  return (ROLES as string[]).includes(role) ? (role as Role) : null;
+}
+
+export async function grantRole(user: string, role: Role, addedBy: string, name?: string): Promise<void> {
+  const data = await loadStore();
+  data.users[user] = { role, name: name || data.users[user]?.name, addedAt: new Date().toISOString(), addedBy };
+  await saveStore();
+  console.log(`[Access] ${user} is now ${role} (by ${addedBy})`);
+}
+
+/**
+ * Remove a user. Returns false if they weren't listed.
+ * Owners from OWNER_IDS can't be revoked from chat.
+ */
+export async function revokeUser(user: string): Promise<boolean> {
+  const data = await loadStore();
+  if (!data.users[user]) return false;
+  delete data.users[user];
+  await saveStore();
+  console.log(`[Access] Revoked ${user}`);
+  return true;
+}
+
+export async function listUsers(): Promise<Array<{ user: string; role: Role; name?: string }>> {
+  const data = await loadStore();
+  const users: Array<{ user: string; role: Role; name?: string }> =
+    OWNER_IDS.map((user) => ({ user, role: "owner", name: "(OWNER_IDS)" }));
+  for (const [user, entry] of Object.entries(data.users)) {
+    if (!OWNER_IDS.includes(user)) users.push({ user, role: entry.role, name: entry.name });
+  }
+  return users.sort((a, b) => RANK[b.role] - RANK[a.role] || a.user.localeCompare(b.user));
+}
+
+// ============================================================
+// INVITES
+// ============================================================
+
+export async function createInvite(role: Role, createdBy: string): Promise<{ code: string; expiresAt: string }> {
+  const data = await loadStore();
+  const now = Date.now();
+
+  // Drop expired codes while we're here
+  for (const [code, invite] of Object.entries(data.invites)) {
+    if (Date.parse(invite.expiresAt) < now) delete data.invites[code];
+  }
+
+  const code = randomBytes(5).toString("hex");
+  const expiresAt = new Date(now + INVITE_TTL_MS).toISOString();
+  data.invites[code] = { role, createdBy, expiresAt };
+  await saveStore();
+  return { code, expiresAt };
+}
+
+/**
+ * Redeem a single-use invite code. Returns the granted role, or null if the
+ * code is unknown or expired.
+ */
+export async function redeemInvite(code: string, user: string, name?: string): Promise<Role | null> {
+  const data = await loadStore();
+  const invite = data.invites[code.trim().toLowerCase()];
+  if (!invite) return null;
+
+  delete data.invites[code.trim().toLowerCase()];
+  if (Date.parse(invite.expiresAt) < Date.now()) {
+    await saveStore();
+    return null;
+  }
+
+  // Never downgrade an existing user through an invite
+  const current = await getRole(user);
+  if (current && hasRole(current, invite.role)) {
+    await saveStore();
+    return current;
+  }
+
+  await grantRole(user, invite.role, `invite from ${invite.createdBy}`, name);
+  return invite.role;
+}
+
+// ============================================================
+// ROLE LIMITS
+// ============================================================
+
+/**
+ * Limits for a role: built-in defaults merged with config/roles.json.
+ */
+export async function roleLimits(role: Role): Promise<RoleLimits> {
+  let overrides: Partial<RoleLimits> = {};
+  try {
+    const data = JSON.parse(await readFile(ROLES_FILE, "utf-8"));
+    overrides = data[role] || {};
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") console.error("[Access] Could not read roles:", error?.message || error);
+  }
+  return { ...DEFAULT_LIMITS[role], ...overrides };
+}
+
+export function canUseWorkspace(limits: RoleLimits, workspace: string): boolean {
+  return limits.workspaces.includes("*") || limits.workspaces.includes(workspace);
+}
@@ -0,0 +1,131 @@
+/**
+ * Local HTTP/WebSocket API
+ *
+ * Lets scripts, cron jobs and other tools talk to the relay without a chat
+ * platform. Requests go through the same pipeline as chat messages
+ * (memory context, per-chat session, memory intents).
+ *
+ * Endpoints (all require `Authorization: Bearer <RELAY_API_TOKEN>`):
+ *   GET  /health                  → { ok: true }
+ *   POST /message                 { text, chatId?, userName? } → { response }
+ *   GET  /ws  (WebSocket upgrade) send { text, chatId?, userName? }
+ *                                 receive { type: "progress", text } ...
+ *                                 then    { type: "result", text } or { type: "error", error }
+ *
+ * Browsers can't set headers on WebSocket upgrades, so /ws also accepts
+ * ?token=<RELAY_API_TOKEN>.
+ */
+
+import { timingSafeEqual } from "crypto";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ApiRequest {
+  text: string;
+  /** Conversation name; each chatId gets its own Claude session */
+  chatId: string;
+  userName?: string;
+}
+
+export type ApiHandler = (request: ApiRequest, onProgress?: (text: string) => void) => Promise<string>;
+
+export interface ApiServerOptions {
+  hostname: string;
+  port: number;
+  token: string;
+  handle: ApiHandler;
+}
+
+// ============================================================
+// SERVER
+// ============================================================
+
+function isValidToken(provided: string | null, expected: string): boolean {
+  if (!provided) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function parseRequest(body: any): ApiRequest | null {
+  if (!body || typeof body.text !== "string" || !body.text.trim()) return null;
+  return {
+    text: body.text,
+    chatId: typeof body.chatId === "string" && body.chatId ? body.chatId : "default",
+    userName: typeof body.userName === "string" ? body.userName : undefined,
+  };
+}
+
+export function startApiServer(options: ApiServerOptions) {
+  const server = Bun.serve({
+    hostname: options.hostname,
+    port: options.port,
+    // POST /message stays open until Claude answers
+    idleTimeout: 0,
+
+    async fetch(req, server) {
+      const url = new URL(req.url);
+      const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || null;
+
+      if (url.pathname === "/ws") {
+        const token = bearer || url.searchParams.get("token");
+        if (!isValidToken(token, options.token)) return new Response("Unauthorized", { status: 401 });
+        if (server.upgrade(req)) return;
+        return new Response("WebSocket upgrade failed", { status: 400 });
+      }
+
+      if (!isValidToken(bearer, options.token)) {
+        return Response.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      if (url.pathname === "/health" && req.method === "GET") {
+        return Response.json({ ok: true });
+      }
+
+      if (url.pathname === "/message" && req.method === "POST") {
+        const request = parseRequest(await req.json().catch(() => null));
+        if (!request) return Response.json({ error: "Body must be JSON with a non-empty \"text\"" }, { status: 400 });
+
+        try {
+          const response = await options.handle(request);
+          return Response.json({ response });
+        } catch (error) {
+          console.error("[API] Error:", error);
+          return Response.json({ error: "Could not process message" }, { status: 500 });
+        }
+      }
+
+      return Response.json({ error: "Not found" }, { status: 404 });
+    },
+
+    websocket: {
+      async message(ws, raw) {
+        let body: unknown = null;
+        try {
+          body = JSON.parse(String(raw));
+        } catch {}
+
+        const request = parseRequest(body);
+        if (!request) {
+          ws.send(JSON.stringify({ type: "error", error: "Send JSON with a non-empty \"text\"" }));
+          return;
+        }
+
+        try {
+          const text = await options.handle(request, (progress) => {
+            ws.send(JSON.stringify({ type: "progress", text: progress }));
+          });
+          ws.send(JSON.stringify({ type: "result", text }));
+        } catch (error) {
+          console.error("[API] WebSocket error:", error);
+          ws.send(JSON.stringify({ type: "error", error: "Could not process message" }));
+        }
+      },
+    },
+  });
+
+  console.log(`[API] Listening on http://${options.hostname}:${options.port}`);
+  return server;
+}
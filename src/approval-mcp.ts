@@ -0,0 +1,124 @@
+/**
+ * Approval MCP Server
+ *
+ * Minimal stdio MCP server the Claude CLI starts for --permission-prompt-tool.
+ * It exposes one tool, "approve", which forwards the permission request to
+ * the relay (RELAY_APPROVAL_URL) and returns the user's decision:
+ *
+ *   { "behavior": "allow", "updatedInput": { ... } }
+ *   { "behavior": "deny", "message": "..." }
+ *
+ * Started by the CLI with RELAY_APPROVAL_URL, RELAY_APPROVAL_TOKEN and
+ * RELAY_APPROVAL_RUN set (see permissions.ts). Not meant to be run by hand.
+ */
+
+const APPROVAL_URL = process.env.RELAY_APPROVAL_URL || "";
+const APPROVAL_TOKEN = process.env.RELAY_APPROVAL_TOKEN || "";
+const APPROVAL_RUN = process.env.RELAY_APPROVAL_RUN || "";
+
+const TOOL = {
+  name: "approve",
+  description: "Ask the relay user whether a tool call may run",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tool_name: { type: "string" },
+      input: { type: "object" },
+      tool_use_id: { type: "string" },
+    },
+    required: ["tool_name", "input"],
+  },
+};
+
+// ============================================================
+// JSON-RPC
+// ============================================================
+
+function send(message: Record<string, unknown>): void {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+}
+
+async function askRelay(toolName: string, input: Record<string, unknown>) {
+  try {
+    const response = await fetch(APPROVAL_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${APPROVAL_TOKEN}` },
+      body: JSON.stringify({ run: APPROVAL_RUN, tool_name: toolName, input }),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const decision = await response.json();
+    return decision.allow
+      ? { behavior: "allow", updatedInput: input }
+      : { behavior: "deny", message: decision.reason || "Denied by the user." };
+  } catch (error: any) {
+    return { behavior: "deny", message: `Could not reach the relay for approval: ${error?.message || error}` };
+  }
+}
+
+async function handle(message: any): Promise<void> {
+  const { id, method, params } = message;
+
+  switch (method) {
+    case "initialize":
+      send({
+        id,
+        result: {
+          protocolVersion: params?.protocolVersion || "2024-11-05",
+          capabilities: { tools: {} },
+          serverInfo: { name: "relay-approvals", version: "1.0.0" },
+        },
+      });
+      return;
+
+    case "ping":
+      send({ id, result: {} });
+      return;
+
+    case "tools/list":
+      send({ id, result: { tools: [TOOL] } });
+      return;
+
+    case "tools/call": {
+      if (params?.name !== TOOL.name) {
+        send({ id, error: { code: -32602, message: `Unknown tool: ${params?.name}` } });
+        return;
+      }
+      const args = params.arguments || {};
+      const decision = await askRelay(String(args.tool_name || "unknown"), args.input || {});
+      send({ id, result: { content: [{ type: "text", text: JSON.stringify(decision) }] } });
+      return;
+    }
+
+    default:
+      // Notifications (no id) need no answer
+      if (id !== undefined) send({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+  }
+}
+
+// ============================================================
+// STDIO LOOP
+// ============================================================
+
+async function main() {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of Bun.stdin.stream()) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        // Don't await: several calls may be waiting for answers at once
+        handle(JSON.parse(line));
+      } catch {
+        send({ id: null, error: { code: -32700, message: "Parse error" } });
+      }
+    }
+  }
+}
+
+main();
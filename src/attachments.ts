@@ -0,0 +1,145 @@
+/**
+ * Attachment Handling
+ *
+ * Turns platform attachments into prompt text for Claude:
+ *   audio  → transcribed:            [Voice]: text
+ *   image  → saved to UPLOADS_DIR:   [Image: /path]
+ *   file   → saved to UPLOADS_DIR:   [File: /path (mime/type)]
+ *            small text/code files are also inlined in a code fence
+ *
+ * Saved files are returned in `uploads` so the caller can delete them once
+ * Claude has answered.
+ */
+
+import { writeFile, unlink } from "fs/promises";
+import { extname, join } from "path";
+import { transcribe } from "./transcribe.ts";
+import type { Attachment } from "./platforms/types.ts";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB || 20) * 1024 * 1024;
+const MAX_INLINE_BYTES = 100 * 1024;
+
+const TEXT_EXTENSIONS = new Set([
+  ".txt", ".md", ".csv", ".tsv", ".json", ".yaml", ".yml", ".toml", ".xml", ".html", ".css",
+  ".js", ".jsx", ".ts", ".tsx", ".py", ".rb", ".go", ".rs", ".java", ".kt", ".swift", ".c",
+  ".h", ".cpp", ".hpp", ".cs", ".php", ".sh", ".sql", ".log", ".ini", ".env", ".diff", ".patch",
+]);
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ResolvedAttachments {
+  /** Prompt fragments, one per usable attachment */
+  parts: string[];
+  /** Files written to the uploads directory */
+  uploads: string[];
+  /** User-facing notes about attachments that were skipped */
+  problems: string[];
+}
+
+// ============================================================
+// RESOLUTION
+// ============================================================
+
+export async function resolveAttachments(
+  attachments: Attachment[],
+  uploadsDir: string
+): Promise<ResolvedAttachments> {
+  const resolved: ResolvedAttachments = { parts: [], uploads: [], problems: [] };
+
+  for (const attachment of attachments) {
+    const label = attachment.fileName || attachment.kind;
+
+    if (attachment.size && attachment.size > MAX_UPLOAD_BYTES) {
+      resolved.problems.push(
+        `Skipped ${label}: ${formatSize(attachment.size)} is over the ${formatSize(MAX_UPLOAD_BYTES)} limit.`
+      );
+      continue;
+    }
+
+    try {
+      if (attachment.kind === "audio") {
+        if (!process.env.VOICE_PROVIDER) {
+          resolved.problems.push("Voice transcription not configured.");
+          continue;
+        }
+
+        const transcription = await transcribe(await attachment.download());
+        if (!transcription) {
+          resolved.problems.push("Could not transcribe voice.");
+          continue;
+        }
+        resolved.parts.push(`[Voice]: ${transcription}`);
+        continue;
+      }
+
+      const data = await attachment.download();
+      const filePath = join(uploadsDir, safeFileName(attachment, resolved.uploads.length));
+      await writeFile(filePath, data);
+      resolved.uploads.push(filePath);
+
+      if (attachment.kind === "image") {
+        resolved.parts.push(`[Image: ${filePath}]`);
+        continue;
+      }
+
+      const mimeType = attachment.mimeType || "application/octet-stream";
+      let part = `[File: ${filePath} (${mimeType})]`;
+      if (isTextFile(attachment) && data.length <= MAX_INLINE_BYTES) {
+        const content = data.toString("utf-8");
+        // Use a fence longer than any backtick run inside the file
+        const longestRun = Math.max(0, ...(content.match(/`+/g) || []).map((run) => run.length));
+        const fence = "`".repeat(Math.max(3, longestRun + 1));
+        part += `\n${fence}\n${content}\n${fence}`;
+      }
+      resolved.parts.push(part);
+    } catch (error) {
+      console.error(`[Attachments] Could not process ${label}:`, error);
+      resolved.problems.push(`Could not process ${label}.`);
+    }
+  }
+
+  return resolved;
+}
+
+export async function cleanupUploads(paths: string[]): Promise<void> {
+  for (const path of paths) await unlink(path).catch(() => {});
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Build a unique file name that can't escape the uploads directory.
+ */
+function safeFileName(attachment: Attachment, index: number): string {
+  const prefix = `${attachment.kind}_${Date.now()}_${index}`;
+  if (!attachment.fileName) {
+    const ext = attachment.mimeType?.split("/")[1]?.replace("jpeg", "jpg").replace(/[^\w]/g, "");
+    return ext ? `${prefix}.${ext}` : prefix;
+  }
+
+  const base = attachment.fileName
+    .split(/[\\/]/).pop()!
+    .replace(/[^\w.-]/g, "_")
+    .replace(/^\.+/, "")
+    .substring(0, 100);
+  return `${prefix}_${base || "file"}`;
+}
+
+function isTextFile(attachment: Attachment): boolean {
+  const mime = attachment.mimeType || "";
+  if (mime.startsWith("text/")) return true;
+  if (/json|xml|yaml|javascript|typescript|x-sh|sql/.test(mime)) return true;
+  return TEXT_EXTENSIONS.has(extname(attachment.fileName || "").toLowerCase());
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
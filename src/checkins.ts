@@ -0,0 +1,263 @@
+/**
+ * Smart Check-ins
+ *
+ * Decides, for "checkin" jobs (see scheduler.ts), whether to message a user
+ * unprompted. Hard limits are checked before Claude is asked:
+ *   - quiet hours (CHECKIN_QUIET_HOURS, local "22-8"; empty = none)
+ *   - at most CHECKIN_MAX_PER_DAY check-ins per local day
+ *   - at least CHECKIN_MIN_GAP_MINUTES between check-ins
+ *   - not while the user is talking (a message in the last CHECKIN_ACTIVE_MINUTES)
+ * Claude then gets the real activity (last inbound message, check-ins today)
+ * and the user's pending goals, and answers with a JSON decision.
+ *
+ * Last inbound messages and sent check-ins are kept per user in
+ * RELAY_DIR/checkins.json.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { localTime } from "./deadlines.ts";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
+const CHECKINS_FILE = join(RELAY_DIR, "checkins.json");
+
+const USER_TIMEZONE = process.env.USER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const QUIET_HOURS = parseQuietHours(process.env.CHECKIN_QUIET_HOURS ?? "22-8");
+const MAX_PER_DAY = Number(process.env.CHECKIN_MAX_PER_DAY || 3);
+const MIN_GAP_MS = Number(process.env.CHECKIN_MIN_GAP_MINUTES || 120) * 60 * 1000;
+const ACTIVE_MS = Number(process.env.CHECKIN_ACTIVE_MINUTES || 30) * 60 * 1000;
+// Sent check-ins older than this are forgotten
+const HISTORY_MS = 2 * 24 * 60 * 60 * 1000;
+// Message activity is written at most this often
+const SAVE_DELAY_MS = 5000;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface CheckinDecision {
+  checkin: boolean;
+  /** The message to send (empty when not checking in) */
+  message: string;
+  reason: string;
+}
+
+interface UserActivity {
+  lastMessageAt?: string;
+  /** When check-ins were sent, oldest first */
+  checkins: string[];
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+let state: Record<string, UserActivity> | null = null;
+// Shared by concurrent first callers, so none of them loads a second copy
+let loading: Promise<Record<string, UserActivity>> | null = null;
+
+function loadState(): Promise<Record<string, UserActivity>> {
+  loading ??= readFile(CHECKINS_FILE, "utf-8")
+    .then((content) => JSON.parse(content))
+    .catch(() => ({}))
+    .then((data) => (state = data));
+  return loading;
+}
+
+let saving: Promise<void> = Promise.resolve();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function writeState(): Promise<void> {
+  if (!state) return;
+  try {
+    await writeFile(CHECKINS_FILE, JSON.stringify(state, null, 2));
+  } catch (error) {
+    console.error("[Checkins] Save error:", error);
+  }
+}
+
+/** Write the state now; writes run one after another, never overlapping */
+function saveState(): Promise<void> {
+  saving = saving.then(writeState);
+  return saving;
+}
+
+/** Write the state soon, once for a burst of changes */
+function saveStateSoon(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveState();
+  }, SAVE_DELAY_MS);
+}
+
+async function activityOf(user: string): Promise<UserActivity> {
+  const data = await loadState();
+  data[user] ??= { checkins: [] };
+  return data[user];
+}
+
+/**
+ * Note that the user (platform:userId) just wrote to the bot. Kept in
+ * memory right away and written to disk shortly after.
+ */
+export function recordInboundMessage(user: string, now = new Date()): void {
+  activityOf(user)
+    .then((activity) => {
+      activity.lastMessageAt = now.toISOString();
+      saveStateSoon();
+    })
+    .catch((error) => console.error("[Checkins] Activity error:", error));
+}
+
+export async function recordCheckin(user: string, now = new Date()): Promise<void> {
+  const activity = await activityOf(user);
+  activity.checkins = [...activity.checkins, now.toISOString()]
+    .filter((at) => now.getTime() - Date.parse(at) < HISTORY_MS);
+  await saveState();
+}
+
+// ============================================================
+// LIMITS
+// ============================================================
+
+function parseQuietHours(text: string): { start: number; end: number } | null {
+  const match = text.trim().match(/^(\d{1,2})-(\d{1,2})$/);
+  if (!match) {
+    if (text.trim()) console.warn(`[Checkins] Ignoring CHECKIN_QUIET_HOURS "${text}" (use e.g. 22-8)`);
+    return null;
+  }
+  return { start: Number(match[1]) % 24, end: Number(match[2]) % 24 };
+}
+
+function isQuietHour(hour: number): boolean {
+  if (!QUIET_HOURS || QUIET_HOURS.start === QUIET_HOURS.end) return false;
+  const { start, end } = QUIET_HOURS;
+  // "22-8" wraps past midnight
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+function checkinsToday(activity: UserActivity, now: Date): string[] {
+  const today = localTime(now);
+  return activity.checkins.filter((at) => {
+    const day = localTime(new Date(at));
+    return day.year === today.year && day.month === today.month && day.day === today.day;
+  });
+}
+
+/**
+ * Why a check-in can't happen now, or null if Claude may decide.
+ */
+export async function checkinBlocked(user: string, now = new Date()): Promise<string | null> {
+  if (isQuietHour(localTime(now).hour)) return "quiet hours";
+
+  const activity = await activityOf(user);
+  if (checkinsToday(activity, now).length >= MAX_PER_DAY) return `daily limit of ${MAX_PER_DAY} reached`;
+
+  const last = activity.checkins[activity.checkins.length - 1];
+  if (last && now.getTime() - Date.parse(last) < MIN_GAP_MS) return "checked in recently";
+
+  if (activity.lastMessageAt && now.getTime() - Date.parse(activity.lastMessageAt) < ACTIVE_MS) {
+    return "user is active";
+  }
+  return null;
+}
+
+// ============================================================
+// DECISION
+// ============================================================
+
+function formatAgo(iso: string, now: Date): string {
+  const minutes = Math.round((now.getTime() - Date.parse(iso)) / 60000);
+  if (minutes < 60) return `${minutes} minutes ago`;
+  const hours = minutes / 60;
+  if (hours < 48) return `${hours.toFixed(1)} hours ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+export interface CheckinPromptOptions {
+  user: string;
+  userName?: string;
+  /** Facts, preferences and pending goals (getMemoryContext) */
+  memoryContext: string;
+  /** Extra instructions from the job's "prompt" */
+  instructions?: string;
+}
+
+/**
+ * Prompt asking Claude whether to check in, with the user's real activity.
+ */
+export async function buildCheckinPrompt(options: CheckinPromptOptions, now = new Date()): Promise<string> {
+  const activity = await activityOf(options.user);
+  const today = checkinsToday(activity, now);
+  const name = options.userName || "the user";
+  const timeStr = now.toLocaleString("en-US", {
+    timeZone: USER_TIMEZONE,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  const parts = [
+    `You are a proactive personal assistant. Decide whether to send ${name} a short check-in message now.`,
+    "",
+    `Current time: ${timeStr}`,
+    `Last message from ${name}: ${activity.lastMessageAt ? formatAgo(activity.lastMessageAt, now) : "none recorded"}`,
+    `Check-ins sent today: ${today.length} of at most ${MAX_PER_DAY}` +
+      (today.length ? ` (last ${formatAgo(today[today.length - 1], now)})` : ""),
+  ];
+  if (QUIET_HOURS) {
+    const hour = (h: number) => `${String(h).padStart(2, "0")}:00`;
+    parts.push(`Quiet hours (no check-ins): ${hour(QUIET_HOURS.start)}-${hour(QUIET_HOURS.end)}`);
+  }
+
+  parts.push("", options.memoryContext || "No goals or facts remembered.");
+  if (options.instructions) parts.push("", options.instructions);
+
+  parts.push(
+    "",
+    "RULES:",
+    "- Only check in for a reason: a deadline coming up or overdue, a goal that has gone quiet, a long silence.",
+    "- Be brief and helpful, not intrusive. Don't check in just to check in.",
+    "- Refer to goals by what they are, not by their IDs.",
+    "",
+    "Reply with only a JSON object, no other text:",
+    '{"checkin": true or false, "message": "the message to send, or \\"\\"", "reason": "why, in one sentence"}'
+  );
+
+  return parts.join("\n");
+}
+
+/**
+ * Read Claude's JSON decision (also inside a code fence or surrounded by
+ * text). Returns null if there's no valid decision.
+ */
+export function parseCheckinDecision(output: string): CheckinDecision | null {
+  const start = output.indexOf("{");
+  const end = output.lastIndexOf("}");
+  if (start < 0 || end < start) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(output.substring(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  if (typeof data?.checkin !== "boolean") return null;
+  const message = typeof data.message === "string" ? data.message.trim() : "";
+  if (data.checkin && !message) return null;
+
+  return {
+    checkin: data.checkin,
+    message,
+    reason: typeof data.reason === "string" ? data.reason.trim() : "",
+  };
+}
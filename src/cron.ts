@@ -0,0 +1,202 @@
+/**
+ * Cron Schedules
+ *
+ * Standard five-field cron expressions, evaluated in USER_TIMEZONE:
+ *
+ *   minute hour day-of-month month weekday
+ *   0      9    *            *     1-5      → 9:00 on weekdays
+ *
+ * Fields take *, lists (1,15), ranges (9-17), steps (*\/30, 9-17/2) and
+ * month / weekday names (jan, mon). Weekday 0 and 7 are Sunday. As in cron,
+ * when both day-of-month and weekday are restricted either one matching is
+ * enough. Also accepts @hourly, @daily, @weekly, @monthly and @yearly.
+ */
+
+import { localTime } from "./deadlines.ts";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface CronSchedule {
+  /** The expression as written */
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  weekdays: Set<number>;
+  /** Day-of-month and weekday are both restricted: either may match */
+  dayOr: boolean;
+}
+
+// ============================================================
+// PARSING
+// ============================================================
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names for values, starting at min */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is Sunday too; folded to 0 below
+  { name: "weekday", min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+function parseValue(text: string, spec: FieldSpec): number | null {
+  const index = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (index >= 0) return spec.min + index;
+  if (!/^\d+$/.test(text)) return null;
+  const value = Number(text);
+  return value >= spec.min && value <= spec.max ? value : null;
+}
+
+/**
+ * Values of one field. Returns an error message if the field is invalid.
+ */
+function parseField(text: string, spec: FieldSpec): Set<number> | string {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const match = part.match(/^(\*|\w+)(?:-(\w+))?(?:\/(\d+))?$/);
+    if (!match) return `bad ${spec.name} "${part}"`;
+
+    const [, startText, endText, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    if (step < 1) return `bad step in ${spec.name} "${part}"`;
+
+    let start = spec.min;
+    let end = spec.max;
+    if (startText !== "*") {
+      const value = parseValue(startText, spec);
+      if (value === null) return `bad ${spec.name} "${startText}"`;
+      start = value;
+      // "5/15" runs from 5 to the end of the range
+      end = endText ? -1 : stepText ? spec.max : value;
+    } else if (endText) {
+      return `bad ${spec.name} "${part}"`;
+    }
+    if (endText) {
+      const value = parseValue(endText, spec);
+      if (value === null || value < start) return `bad ${spec.name} range "${part}"`;
+      end = value;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Returns an error message if it's invalid.
+ */
+export function parseCron(expression: string): CronSchedule | string {
+  const source = expression.trim().replace(/\s+/g, " ");
+  const fields = (ALIASES[source.toLowerCase()] ?? source).split(" ");
+  if (fields.length !== 5) return `"${source}" needs 5 fields: minute hour day month weekday`;
+
+  const parsed: Set<number>[] = [];
+  for (let i = 0; i < FIELDS.length; i++) {
+    const values = parseField(fields[i], FIELDS[i]);
+    if (typeof values === "string") return values;
+    parsed.push(values);
+  }
+
+  const [minutes, hours, days, months, weekdays] = parsed;
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    source,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayOr: fields[2] !== "*" && fields[4] !== "*",
+  };
+}
+
+// ============================================================
+// MATCHING
+// ============================================================
+
+const MINUTE_MS = 60 * 1000;
+
+function dayMatches(schedule: CronSchedule, day: number, weekday: number): boolean {
+  const byDate = schedule.days.has(day);
+  const byWeekday = schedule.weekdays.has(weekday);
+  return schedule.dayOr ? byDate || byWeekday : byDate && byWeekday;
+}
+
+/**
+ * Whether the schedule fires in the minute of this instant.
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  const local = localTime(date);
+  return (
+    schedule.minutes.has(local.minute) &&
+    schedule.hours.has(local.hour) &&
+    schedule.months.has(local.month) &&
+    dayMatches(schedule, local.day, local.weekday)
+  );
+}
+
+/**
+ * The most recent time the schedule fired, at or before `now` and no more
+ * than `withinMs` ago, or null.
+ */
+export function previousCronRun(schedule: CronSchedule, now: Date, withinMs: number): Date | null {
+  const latest = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+  for (let time = latest; time >= now.getTime() - withinMs; time -= MINUTE_MS) {
+    if (cronMatches(schedule, new Date(time))) return new Date(time);
+  }
+  return null;
+}
+
+/**
+ * The next time the schedule fires after `after`, within a year, or null
+ * (e.g. "0 0 31 2 *").
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const limit = after.getTime() + 366 * 24 * 60 * MINUTE_MS;
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  while (time <= limit) {
+    const local = localTime(new Date(time));
+    // Skip whole hours that can't match; stepping by hour stays right across DST
+    if (
+      !schedule.months.has(local.month) ||
+      !dayMatches(schedule, local.day, local.weekday) ||
+      !schedule.hours.has(local.hour)
+    ) {
+      time += (60 - local.minute) * MINUTE_MS;
+      continue;
+    }
+    if (schedule.minutes.has(local.minute)) return new Date(time);
+    time += MINUTE_MS;
+  }
+  return null;
+}
@@ -0,0 +1,254 @@
+/**
+ * Deadline Parsing
+ *
+ * Turns deadlines as people write them ("friday", "tomorrow at 5pm",
+ * "in 2 hours", "Nov 5", "end of month", "2026-11-01 17:00") into real
+ * timestamps, relative to USER_TIMEZONE.
+ *
+ * Dates without a time are due at 9:00 local time; "today" at the end of
+ * the working day (18:00) and "tonight" at 20:00.
+ * Text that can't be parsed is kept as written (and never reminded about).
+ */
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const USER_TIMEZONE = process.env.USER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const DEFAULT_HOUR = 9;
+const END_OF_DAY_HOUR = 18;
+const TONIGHT_HOUR = 20;
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+const UNIT_MINUTES: Record<string, number> = { minute: 1, min: 1, hour: 60, hr: 60, day: 1440, week: 10080 };
+
+// ============================================================
+// TIMEZONE HELPERS
+// ============================================================
+
+export interface LocalTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const partsFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: USER_TIMEZONE,
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  weekday: "short",
+  hourCycle: "h23",
+});
+
+/** Wall-clock time of an instant in USER_TIMEZONE */
+export function localTime(date: Date): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of partsFormat.formatToParts(date)) parts[part.type] = part.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase()),
+  };
+}
+
+/** Offset of USER_TIMEZONE from UTC at an instant, in ms */
+function offsetAt(ms: number): number {
+  const local = localTime(new Date(ms));
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  return wall - Math.floor(ms / 60000) * 60000;
+}
+
+/**
+ * Instant of a wall-clock time in USER_TIMEZONE. Out-of-range days roll
+ * over like Date.UTC (day 32 is the next month).
+ */
+function zonedDate(year: number, month: number, day: number, hour: number, minute: number): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const first = wall - offsetAt(wall);
+  // Second pass for DST changes between the guess and the result
+  const second = wall - offsetAt(first);
+  return new Date(second);
+}
+
+// ============================================================
+// PARSING
+// ============================================================
+
+function toNumber(word: string): number {
+  return NUMBER_WORDS[word] ?? Number(word);
+}
+
+/**
+ * Split off a time of day ("at 5pm", "17:30", "noon"). Returns the hour
+ * and minute (or null) and the remaining text.
+ */
+function parseTimeOfDay(text: string): { time: { hour: number; minute: number } | null; rest: string } {
+  const patterns: Array<[RegExp, (m: RegExpMatchArray) => { hour: number; minute: number } | null]> = [
+    [/\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/, (m) => {
+      const hour = Number(m[1]);
+      if (hour < 1 || hour > 12) return null;
+      return { hour: (hour % 12) + (m[3] === "pm" ? 12 : 0), minute: Number(m[2] || 0) };
+    }],
+    [/\b(?:at\s+)?(\d{1,2}):(\d{2})\b/, (m) => {
+      const hour = Number(m[1]);
+      const minute = Number(m[2]);
+      return hour < 24 && minute < 60 ? { hour, minute } : null;
+    }],
+    [/\b(?:at\s+)?noon\b/, () => ({ hour: 12, minute: 0 })],
+    [/\b(?:at\s+)?midnight\b/, () => ({ hour: 23, minute: 59 })],
+    [/\b(?:in the\s+)?morning\b/, () => ({ hour: DEFAULT_HOUR, minute: 0 })],
+    [/\b(?:in the\s+)?afternoon\b/, () => ({ hour: 15, minute: 0 })],
+    [/\b(?:in the\s+)?evening\b/, () => ({ hour: 18, minute: 0 })],
+    [/\b(?:eod|end of (?:the\s+)?day)\b/, () => ({ hour: END_OF_DAY_HOUR, minute: 0 })],
+  ];
+
+  for (const [pattern, read] of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const time = read(match);
+    if (time) return { time, rest: text.replace(match[0], " ").replace(/\s+/g, " ").trim() };
+  }
+  return { time: null, rest: text };
+}
+
+/**
+ * Parse the date part relative to today. Returns the local date and the
+ * hour to use when no time was given, or null.
+ */
+function parseDay(text: string, today: LocalTime): { year: number; month: number; day: number; hour: number } | null {
+  const on = (offset: number, hour = DEFAULT_HOUR) => ({
+    year: today.year, month: today.month, day: today.day + offset, hour,
+  });
+
+  if (text === "" || text === "today") return on(0, END_OF_DAY_HOUR);
+  if (text === "tonight") return on(0, TONIGHT_HOUR);
+  if (text === "tomorrow" || text === "tmrw") return on(1);
+  if (text === "day after tomorrow") return on(2);
+
+  const relative = text.match(/^in (\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten) (day|week)s?$/);
+  if (relative) return on(toNumber(relative[1]) * (relative[2] === "week" ? 7 : 1));
+
+  if (text === "next week") return on(((1 - today.weekday + 7) % 7) || 7);
+  if (text === "end of week" || text === "end of the week" || text === "this week") {
+    return on((5 - today.weekday + 7) % 7, END_OF_DAY_HOUR);
+  }
+  if (text === "weekend" || text === "this weekend") return on((6 - today.weekday + 7) % 7 || 7);
+  if (text === "end of month" || text === "end of the month" || text === "this month") {
+    // Day 0 of next month = last day of this month
+    return { year: today.year, month: today.month + 1, day: 0, hour: END_OF_DAY_HOUR };
+  }
+  if (text === "next month") return { year: today.year, month: today.month + 1, day: 1, hour: DEFAULT_HOUR };
+
+  // "friday", "next fri": the coming one (a week ahead if it's today)
+  const weekday = text.match(/^(?:next |this )?(sun|mon|tue|wed|thu|fri|sat)(?:day|s|sday|rsday|nesday|urday)?$/);
+  if (weekday) return on((WEEKDAYS.indexOf(weekday[1]) - today.weekday + 7) % 7 || 7);
+
+  // "nov 5", "november 5th, 2027", "5 nov", "5th of november"
+  const monthFirst = text.match(/^([a-z]{3})[a-z]*\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]{3})[a-z]*\.?(?:,? (\d{4}))?$/);
+  const [monthName, dayText, yearText] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst ? [dayFirst[2], dayFirst[1], dayFirst[3]] : [];
+  if (monthName && MONTHS.includes(monthName)) {
+    const month = MONTHS.indexOf(monthName) + 1;
+    const day = Number(dayText);
+    let year = yearText ? Number(yearText) : today.year;
+    // Dates already past this year mean next year
+    if (!yearText && (month < today.month || (month === today.month && day < today.day))) year++;
+    return { year, month, day, hour: DEFAULT_HOUR };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a deadline into a timestamp. Returns null if the text isn't understood.
+ */
+export function parseDeadline(text: string, now: Date = new Date()): Date | null {
+  const input = text.trim().toLowerCase();
+
+  // Full ISO timestamps with a zone are taken as they are
+  if (/^\d{4}-\d{2}-\d{2}t[\d:.]+(z|[+-]\d{2}:?\d{2})$/.test(input)) {
+    const ms = Date.parse(text.trim());
+    return isNaN(ms) ? null : new Date(ms);
+  }
+
+  // Local ISO date with optional time: "2026-11-01", "2026-11-01 17:00"
+  const iso = input.match(/^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{1,2}):(\d{2}))?$/);
+  if (iso) {
+    const hour = iso[4] !== undefined ? Number(iso[4]) : DEFAULT_HOUR;
+    return zonedDate(Number(iso[1]), Number(iso[2]), Number(iso[3]), hour, Number(iso[5] || 0));
+  }
+
+  const cleaned = input.replace(/^(by|on|at|before|until|due)\s+/, "").replace(/[.!]+$/, "");
+
+  // "in 20 minutes", "in an hour", "in 3 days"
+  const relative = cleaned.match(/^in (\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten) (minute|min|hour|hr|day|week)s?$/);
+  if (relative) {
+    return new Date(now.getTime() + toNumber(relative[1]) * UNIT_MINUTES[relative[2]] * 60000);
+  }
+
+  const { time, rest } = parseTimeOfDay(cleaned);
+  const dayText = rest.replace(/^(by|on|at|this coming)\s+/, "").trim();
+  if (!time && !dayText) return null;
+
+  const today = localTime(now);
+  const day = parseDay(dayText, today);
+  if (!day) return null;
+
+  let result = zonedDate(day.year, day.month, day.day, time?.hour ?? day.hour, time?.minute ?? 0);
+  // A bare time that already passed today means tomorrow
+  if (!dayText && time && result.getTime() <= now.getTime()) {
+    result = zonedDate(day.year, day.month, day.day + 1, time.hour, time.minute);
+  }
+  return result;
+}
+
+/**
+ * Normalize a deadline for storage: an ISO timestamp if it parses,
+ * otherwise the text as written.
+ */
+export function normalizeDeadline(text: string, now: Date = new Date()): string {
+  return parseDeadline(text, now)?.toISOString() ?? text.trim();
+}
+
+/**
+ * Timestamp of a stored deadline (ms), or null for free text.
+ */
+export function deadlineTime(deadline: string | null): number | null {
+  if (!deadline || !/^\d{4}-\d{2}-\d{2}T/.test(deadline)) return null;
+  const ms = Date.parse(deadline);
+  return isNaN(ms) ? null : ms;
+}
+
+/**
+ * Stored deadline for display, e.g. "Fri, Oct 24, 9:00 AM" in USER_TIMEZONE.
+ */
+export function formatDeadline(deadline: string): string {
+  const ms = deadlineTime(deadline);
+  if (ms === null) return deadline;
+  return new Date(ms).toLocaleString("en-US", {
+    timeZone: USER_TIMEZONE,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,300 @@
+/**
+ * Outbound Formatting Module
+ *
+ * Converts Claude's Markdown into what each platform renders and splits long
+ * replies into chunks that fit the platform's message limit.
+ *
+ *   Telegram: HTML parse mode, 4096 characters per message
+ *   Discord:  Markdown (mostly native), 2000 characters per message
+ *   Slack:    mrkdwn, 4000 characters per message (Slack's recommended limit)
+ *
+ * Splitting prefers paragraph boundaries and never breaks a code fence: a
+ * fence that is too long on its own is closed and reopened across chunks.
+ */
+
+export const TELEGRAM_MAX_LENGTH = 4096;
+export const DISCORD_MAX_LENGTH = 2000;
+export const SLACK_MAX_LENGTH = 4000;
+
+// ============================================================
+// SPLITTING
+// ============================================================
+
+/**
+ * Split Markdown into chunks of at most maxLength characters.
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const push = (block: string) => {
+    const candidate = current ? `${current}\n\n${block}` : block;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+      return;
+    }
+    if (current) chunks.push(current);
+    current = "";
+
+    if (block.length <= maxLength) {
+      current = block;
+    } else {
+      const pieces = splitBlock(block, maxLength);
+      chunks.push(...pieces.slice(0, -1));
+      current = pieces[pieces.length - 1] || "";
+    }
+  };
+
+  for (const block of splitBlocks(text)) push(block);
+  if (current) chunks.push(current);
+
+  return chunks.length ? chunks : [""];
+}
+
+/**
+ * Break text into paragraphs, keeping each code fence as a single block.
+ */
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const block = current.join("\n").trim();
+    if (block) blocks.push(block);
+    current = [];
+  };
+
+  for (const line of text.split("\n")) {
+    if (/^\s*```/.test(line)) {
+      if (!inFence) flush();
+      current.push(line);
+      inFence = !inFence;
+      if (!inFence) flush();
+      continue;
+    }
+
+    if (!inFence && !line.trim()) {
+      flush();
+      continue;
+    }
+
+    current.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Split a single oversized block by lines (and by characters as a last resort).
+ * Code fences are closed at the end of each piece and reopened in the next.
+ */
+function splitBlock(block: string, maxLength: number): string[] {
+  const lines = block.split("\n");
+  const fenceMatch = lines[0].match(/^\s*```(.*)$/);
+  const isFence = fenceMatch !== null && lines.length > 1 && /^\s*```\s*$/.test(lines[lines.length - 1]);
+
+  const open = isFence ? lines[0] : "";
+  const close = isFence ? "```" : "";
+  const body = isFence ? lines.slice(1, -1) : lines;
+  const overhead = isFence ? open.length + close.length + 2 : 0;
+  const limit = Math.max(1, maxLength - overhead);
+
+  const pieces: string[] = [];
+  let current = "";
+
+  const emit = () => {
+    if (!current) return;
+    pieces.push(isFence ? `${open}\n${current}\n${close}` : current);
+    current = "";
+  };
+
+  for (const line of body) {
+    // Hard-wrap lines that can't fit on their own
+    for (let i = 0; i < Math.max(line.length, 1); i += limit) {
+      const part = line.substring(i, i + limit);
+      const candidate = current ? `${current}\n${part}` : part;
+      if (candidate.length > limit) {
+        emit();
+        current = part;
+      } else {
+        current = candidate;
+      }
+    }
+  }
+  emit();
+
+  return pieces;
+}
+
+// ============================================================
+// TELEGRAM (HTML)
+// ============================================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Convert Markdown to Telegram-flavored HTML.
+ */
+export function markdownToTelegramHtml(markdown: string): string {
+  const out: string[] = [];
+  const lines = markdown.split("\n");
+  let fence: { lang: string; lines: string[] } | null = null;
+
+  for (const line of lines) {
+    const fenceMatch = line.match(/^\s*```(\S*)/);
+    if (fenceMatch) {
+      if (fence) {
+        const langAttr = fence.lang ? ` class="language-${escapeHtml(fence.lang)}"` : "";
+        out.push(`<pre><code${langAttr}>${escapeHtml(fence.lines.join("\n"))}</code></pre>`);
+        fence = null;
+      } else {
+        fence = { lang: fenceMatch[1], lines: [] };
+      }
+      continue;
+    }
+
+    if (fence) {
+      fence.lines.push(line);
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      out.push(`<b>${formatInline(heading[1])}</b>`);
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (bullet) {
+      out.push(`${bullet[1]}• ${formatInline(bullet[2])}`);
+      continue;
+    }
+
+    const quote = line.match(/^>\s?(.*)$/);
+    if (quote) {
+      out.push(`<blockquote>${formatInline(quote[1])}</blockquote>`);
+      continue;
+    }
+
+    out.push(formatInline(line));
+  }
+
+  // Unterminated fence: render what we have
+  if (fence) {
+    out.push(`<pre><code>${escapeHtml(fence.lines.join("\n"))}</code></pre>`);
+  }
+
+  return out.join("\n");
+}
+
+function formatInline(text: string): string {
+  // Pull inline code out first so its contents aren't formatted
+  const codes: string[] = [];
+  let result = text.replace(/`([^`]+)`/g, (_, code) => {
+    codes.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${codes.length - 1}\u0000`;
+  });
+
+  result = escapeHtml(result)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, url) => `<a href="${url.replace(/"/g, "&quot;")}">${label}</a>`)
+    .replace(/\*\*(.+?)\*\*/g, "<b>$1</b>")
+    .replace(/__(.+?)__/g, "<b>$1</b>")
+    .replace(/~~(.+?)~~/g, "<s>$1</s>")
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)(?<!\s)\*(?!\w)/g, "$1<i>$2</i>")
+    .replace(/(^|[^\w])_(?!\s)(.+?)(?<!\s)_(?!\w)/g, "$1<i>$2</i>");
+
+  return result.replace(/\u0000(\d+)\u0000/g, (_, i) => codes[Number(i)]);
+}
+
+/**
+ * Format a reply for Telegram: split into chunks and convert each to HTML.
+ * The plain Markdown of each chunk is kept as a fallback.
+ */
+export function formatForTelegram(markdown: string): Array<{ html: string; plain: string }> {
+  // HTML tags add length, so split the source with some headroom
+  return splitMessage(markdown, TELEGRAM_MAX_LENGTH - 600).flatMap((chunk) => {
+    const html = markdownToTelegramHtml(chunk);
+    if (html.length <= TELEGRAM_MAX_LENGTH) return [{ html, plain: chunk }];
+
+    return splitMessage(chunk, Math.floor(TELEGRAM_MAX_LENGTH / 2)).map((part) => ({
+      html: markdownToTelegramHtml(part),
+      plain: part,
+    }));
+  });
+}
+
+// ============================================================
+// DISCORD (Markdown)
+// ============================================================
+
+/**
+ * Convert Markdown to what Discord renders.
+ * Discord supports most Markdown natively; only deep headings need rewriting.
+ */
+export function markdownToDiscord(markdown: string): string {
+  let inFence = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (/^\s*```/.test(line)) inFence = !inFence;
+      if (inFence) return line;
+
+      // Discord only renders #, ## and ###
+      const heading = line.match(/^#{4,6}\s+(.*)$/);
+      return heading ? `**${heading[1]}**` : line;
+    })
+    .join("\n");
+}
+
+export function formatForDiscord(markdown: string): string[] {
+  return splitMessage(markdownToDiscord(markdown), DISCORD_MAX_LENGTH);
+}
+
+// ============================================================
+// SLACK (mrkdwn)
+// ============================================================
+
+/**
+ * Convert Markdown to Slack mrkdwn.
+ */
+export function markdownToSlack(markdown: string): string {
+  let inFence = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (/^\s*```/.test(line)) {
+        inFence = !inFence;
+        // Slack ignores the language tag and would print it
+        return line.replace(/^(\s*```)\S*/, "$1");
+      }
+      if (inFence) return line;
+
+      const heading = line.match(/^#{1,6}\s+(.*)$/);
+      if (heading) return `*${heading[1].replace(/\*\*/g, "")}*`;
+
+      const codes: string[] = [];
+      let result = line.replace(/`[^`]+`/g, (code) => {
+        codes.push(code);
+        return `\u0000${codes.length - 1}\u0000`;
+      });
+
+      result = result
+        .replace(/^(\s*)[-*+]\s+/, "$1• ")
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "<$2|$1>")
+        .replace(/(^|[^\w*])\*(?!\s)([^*]+?)(?<!\s)\*(?!\w)/g, "$1_$2_")
+        .replace(/\*\*(.+?)\*\*/g, "*$1*")
+        .replace(/__(.+?)__/g, "*$1*")
+        .replace(/~~(.+?)~~/g, "~$1~");
+
+      return result.replace(/\u0000(\d+)\u0000/g, (_, i) => codes[Number(i)]);
+    })
+    .join("\n");
+}
+
+export function formatForSlack(markdown: string): string[] {
+  return splitMessage(markdownToSlack(markdown), SLACK_MAX_LENGTH);
+}
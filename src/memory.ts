@@ -1,82 +1,262 @@
 /**
  * Memory Module for Discord-Telegram Relay
  * 
- * Uses Diego's MCP server for persistent memory instead of Supabase.
- * Memory intents are sent to MCP for storage and retrieval.
+ * Stores facts and goals in one of several backends (see src/memory/),
+ * picked with MEMORY_BACKEND:
+ *   mcp       - Diego's MCP ledger (MCP_URL, MCP_API_KEY)
+ *   supabase  - memory/messages tables from db/schema.sql (SUPABASE_URL, SUPABASE_ANON_KEY)
+ *   sqlite    - local file in RELAY_DIR, works offline (default without MCP_URL/SUPABASE_URL)
  * 
  * Intent tags (Claude automatically includes these in responses):
  *   [REMEMBER: fact to store]
+ *   [REMEMBER: fact everyone should know | SHARED]
+ *   [PREFERENCE: how the user likes things done]
  *   [GOAL: text | DEADLINE: optional date]
- *   [DONE: search text for completed goal]
+ *   [REMIND: text | AT: time]            - a goal due at that time
+ *   [DONE: goal ID or search text]
+ *   [UPDATE: ID | new text | DEADLINE: optional date]
+ *   [FORGET: ID or search text]
+ *
+ * Deadlines are parsed into timestamps in USER_TIMEZONE when possible
+ * (see deadlines.ts); goals past their deadline are flagged OVERDUE.
+ *
+ * Items appear in the prompt context with a short ID ("[3f9a1c] ...") so
+ * Claude can refer to them exactly. When search text matches several
+ * items nothing is changed; the reply lists the candidates instead.
+ *
+ * Items belong to the user (and chat) that created them, kept as the item's
+ * scope (the ledger item's category with MCP):
+ *   "memory:user:<platform:userId>|chat:<chat>"  - private to that user
+ *   "memory:shared"                              - team facts, visible to everyone
+ *   "memory" or none                             - saved before scopes; owners only
+ * In shared channels a user only sees their items from that channel, so
+ * private facts from DMs don't end up in a reply others can read.
  */
 
-import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { join } from "path";
+import { createMcpStore } from "./memory/mcp.ts";
+import { createSupabaseStore } from "./memory/supabase.ts";
+import { createSqliteStore } from "./memory/sqlite.ts";
+import type { MemoryItem, MemoryStore, MemoryType, ScopeFilter } from "./memory/types.ts";
+import { deadlineTime, formatDeadline, normalizeDeadline } from "./deadlines.ts";
+
+export type { MemoryItem, MemoryType } from "./memory/types.ts";
 
 // ============================================================
-// MCP CONFIGURATION
+// CONFIGURATION
 // ============================================================
 
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
+
 const MCP_URL = process.env.MCP_URL || "http://localhost:3001/sse";
 const MCP_API_KEY = process.env.MCP_API_KEY || "";
+const SUPABASE_URL = process.env.SUPABASE_URL || "";
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || "";
+const MEMORY_DB = process.env.MEMORY_DB || join(RELAY_DIR, "memory.db");
+
+// Existing setups keep their backend when MEMORY_BACKEND isn't set
+const MEMORY_BACKEND = (
+  process.env.MEMORY_BACKEND ||
+  (process.env.MCP_URL ? "mcp" : SUPABASE_URL ? "supabase" : "sqlite")
+).toLowerCase();
+
+// Items fetched per query (of the caller's scopes)
+const QUERY_LIMIT = 50;
+// Items searched when resolving a short ID
+const LOOKUP_LIMIT = 500;
+const CONTEXT_LIMIT = 10;
+const SHORT_ID_LENGTH = 6;
+// Goals scanned for reminders (all users)
+const SCHEDULE_LIMIT = 500;
+// Candidates listed when a reference is ambiguous
+const CANDIDATE_LIMIT = 5;
 
 // ============================================================
-// MCP CLIENT
+// SCOPES
 // ============================================================
 
-let mcpClient: Client | null = null;
-let mcpClientPromise: Promise<Client> | null = null;
+export interface MemoryScope {
+  /** platform:userId of the person talking */
+  user: string;
+  /** Conversation the message came from */
+  chat: string;
+  /** DMs show all of the user's items; shared chats only those from that chat */
+  isDirect: boolean;
+  /** Also show items saved before scopes existed (owners) */
+  includeUnscoped: boolean;
+}
+
+const SHARED_SCOPE = "memory:shared";
+
+function scopeCategory(scope: MemoryScope, shared: boolean): string {
+  return shared ? SHARED_SCOPE : `memory:user:${scope.user}|chat:${scope.chat}`;
+}
+
+/**
+ * Whether an item may be shown to the scope's user.
+ */
+function isVisible(item: MemoryItem, scope: MemoryScope): boolean {
+  if (item.scope === SHARED_SCOPE) return true;
+
+  const owned = item.scope.match(/^memory:user:(.+)\|chat:(.+)$/);
+  if (owned) return owned[1] === scope.user && (scope.isDirect || owned[2] === scope.chat);
+
+  // Saved before scopes (or not by the relay)
+  return scope.includeUnscoped;
+}
+
+/**
+ * Whether the scope's user may change or delete an item: their own items,
+ * and for owners also team facts and items saved before scopes.
+ */
+function canModify(item: MemoryItem, scope: MemoryScope): boolean {
+  const owned = item.scope.match(/^memory:user:(.+)\|chat:/);
+  return owned ? owned[1] === scope.user : scope.includeUnscoped;
+}
+
+/**
+ * Scopes visible to the caller, for the backend to filter on (see isVisible).
+ */
+function scopeFilter(scope: MemoryScope): ScopeFilter {
+  const own = `memory:user:${scope.user}|chat:`;
+  return {
+    scopes: scope.isDirect ? [SHARED_SCOPE] : [SHARED_SCOPE, `${own}${scope.chat}`],
+    prefixes: scope.isDirect ? [own] : [],
+    unscoped: scope.includeUnscoped,
+  };
+}
+
+async function listVisible(type: MemoryType, scope: MemoryScope, limit = QUERY_LIMIT): Promise<MemoryItem[]> {
+  return (await store.list(type, limit, scopeFilter(scope))).filter((i) => isVisible(i, scope));
+}
+
+async function searchVisible(query: string, scope: MemoryScope): Promise<MemoryItem[]> {
+  return (await store.search(query, QUERY_LIMIT, scopeFilter(scope))).filter((i) => isVisible(i, scope));
+}
+
+// ============================================================
+// STORE
+// ============================================================
 
-async function getMcpClient(): Promise<Client> {
-  if (mcpClient) return mcpClient;
-  
-  // Prevent race condition with proper mutex
-  if (mcpClientPromise) {
-    return mcpClientPromise;
+function createStore(): MemoryStore {
+  switch (MEMORY_BACKEND) {
+    case "mcp":
+      return createMcpStore({ url: MCP_URL, apiKey: MCP_API_KEY });
+    case "supabase":
+      return createSupabaseStore({ url: SUPABASE_URL, key: SUPABASE_ANON_KEY });
+    case "sqlite":
+      return createSqliteStore({ path: MEMORY_DB });
+    default:
+      console.error(`[Memory] Unknown MEMORY_BACKEND "${MEMORY_BACKEND}", using sqlite`);
+      return createSqliteStore({ path: MEMORY_DB });
   }
-  
-  mcpClientPromise = (async () => {
-    // Build headers with API key instead of query string
-    const headers: Record<string, string> = {};
-    if (MCP_API_KEY) {
-      headers["x-api-key"] = MCP_API_KEY;
-    }
-    
-    const url = new URL(MCP_URL);
-    const transport = new SSEClientTransport(url, { headers });
-    mcpClient = new Client({ name: "discord-telegram-relay", version: "1.0.0" });
-    await mcpClient.connect(transport);
-    
-    console.log("[Memory] MCP connected");
-    return mcpClient;
-  })();
-  
-  return mcpClientPromise;
+}
+
+const store = createStore();
+
+// ============================================================
+// ITEM LOOKUP
+// ============================================================
+
+/**
+ * Short ID shown to Claude and the user, e.g. "3f9a1c".
+ */
+export function shortId(item: MemoryItem): string {
+  return item.id.replace(/-/g, "").toLowerCase().substring(0, SHORT_ID_LENGTH);
+}
+
+function describeItem(item: MemoryItem): string {
+  return `[${shortId(item)}] ${item.content}`;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || [];
+}
+
+/**
+ * Find the items of the given types a reference points at: a short (or
+ * full) ID, the exact text, or search text. Several results mean the
+ * reference is ambiguous.
+ */
+async function findItems(ref: string, types: MemoryType[], scope: MemoryScope): Promise<MemoryItem[]> {
+  const key = ref.trim().replace(/^\[|\]$/g, "").toLowerCase();
+
+  if (/^[\w-]+$/.test(key)) {
+    const listed = (await Promise.all(types.map((type) => listVisible(type, scope, LOOKUP_LIMIT)))).flat();
+    const byId = listed.filter((i) => shortId(i) === key || i.id.toLowerCase() === key);
+    if (byId.length) return byId;
+  }
+
+  const found = (await searchVisible(key, scope)).filter((i) => types.includes(i.type));
+  const exact = found.filter((i) => i.content.trim().toLowerCase() === key);
+  if (exact.length) return exact;
+
+  // Prefer items containing every word of the search text
+  const required = words(key);
+  const complete = found.filter((i) => {
+    const content = i.content.toLowerCase();
+    return required.every((w) => content.includes(w));
+  });
+  return complete.length ? complete : found;
+}
+
+function ambiguityNote(ref: string, candidates: MemoryItem[], question: string): string {
+  const listed = candidates.slice(0, CANDIDATE_LIMIT).map(describeItem).join("; ");
+  return `Several items match "${ref}": ${listed}. ${question}`;
 }
 
 // ============================================================
 // MEMORY INTENT PROCESSING
 // ============================================================
 
+const INTENT_TAGS = ["REMEMBER", "PREFERENCE", "GOAL", "REMIND", "UPDATE", "DONE", "FORGET"];
+// A complete tag, or one still being streamed at the end of the text
+const INTENT_TAG = new RegExp(`\\[(?:${INTENT_TAGS.join("|")}):[^\\]]*(?:\\]|$)`, "gi");
+
+/**
+ * Partial (streamed) text without memory tags, for progress updates shown
+ * before processMemoryIntents runs on the full response.
+ */
+export function stripMemoryTags(text: string): string {
+  // Also a tag name that's only begun, e.g. "[REM"
+  return text.replace(INTENT_TAG, "").replace(/\[[A-Z]*$/, "").trim();
+}
+
 /**
  * Parse Claude's response for memory intent tags.
- * Saves to MCP and returns cleaned response.
+ * Saves to the memory store and returns the cleaned response, with a note
+ * (plain text, one paragraph each) appended for references that matched
+ * nothing or several items.
  */
-export async function processMemoryIntents(response: string): Promise<string> {
+export async function processMemoryIntents(response: string, scope: MemoryScope): Promise<string> {
   let clean = response;
+  const notes: string[] = [];
 
-  // [REMEMBER: fact to store]
-  for (const match of response.matchAll(/\[REMEMBER:\s*(.+?)\]/gi)) {
+  // [REMEMBER: fact to store] or [REMEMBER: fact | SHARED]
+  for (const match of response.matchAll(/\[REMEMBER:\s*(.+?)(\s*\|\s*SHARED)?\]/gi)) {
     const fact = match[1].trim();
+    const shared = Boolean(match[2]);
     try {
-      await saveMemory(fact, "fact");
-      console.log(`[Memory] Saved fact: ${fact.substring(0, 50)}...`);
+      await saveMemory(fact, "fact", scope, { shared });
+      console.log(`[Memory] Saved ${shared ? "shared " : ""}fact: ${fact.substring(0, 50)}...`);
     } catch (error) {
       console.error("[Memory] Error saving fact:", error);
     }
     clean = clean.replace(match[0], "");
   }
 
+  // [PREFERENCE: how the user likes things]
+  for (const match of response.matchAll(/\[PREFERENCE:\s*(.+?)\]/gi)) {
+    const preference = match[1].trim();
+    try {
+      await saveMemory(preference, "preference", scope);
+      console.log(`[Memory] Saved preference: ${preference.substring(0, 50)}...`);
+    } catch (error) {
+      console.error("[Memory] Error saving preference:", error);
+    }
+    clean = clean.replace(match[0], "");
+  }
+
   // [GOAL: text] or [GOAL: text | DEADLINE: date]
   for (const match of response.matchAll(
     /\[GOAL:\s*(.+?)(?:\s*\|\s*DEADLINE:\s*(.+?))?\]/gi
@@ -84,7 +264,7 @@ export async function processMemoryIntents(response: string): Promise<string> {
     const goal = match[1].trim();
     const deadline = match[2]?.trim();
     try {
-      await saveMemory(goal, "goal", deadline);
+      await saveMemory(goal, "goal", scope, { deadline });
       console.log(`[Memory] Saved goal: ${goal.substring(0, 50)}...`);
     } catch (error) {
       console.error("[Memory] Error saving goal:", error);
@@ -92,79 +272,143 @@ export async function processMemoryIntents(response: string): Promise<string> {
     clean = clean.replace(match[0], "");
   }
 
-  // [DONE: search text for completed goal]
+  // [REMIND: text | AT: time]
+  for (const match of response.matchAll(/\[REMIND:\s*(.+?)\s*\|\s*AT:\s*(.+?)\]/gi)) {
+    const text = match[1].trim();
+    const at = match[2].trim();
+    try {
+      await saveMemory(text, "goal", scope, { deadline: at });
+      console.log(`[Memory] Saved reminder for ${at}: ${text.substring(0, 50)}...`);
+    } catch (error) {
+      console.error("[Memory] Error saving reminder:", error);
+    }
+    clean = clean.replace(match[0], "");
+  }
+
+  // [UPDATE: id | new text] or [UPDATE: id | new text | DEADLINE: date]
+  for (const match of response.matchAll(
+    /\[UPDATE:\s*([^|\]]+?)\s*\|\s*(.*?)(?:\s*\|?\s*DEADLINE:\s*(.+?))?\]/gi
+  )) {
+    const ref = match[1].trim();
+    const content = match[2].trim();
+    const deadline = match[3]?.trim();
+    try {
+      const result = await updateItem(ref, scope, { content: content || undefined, deadline });
+      if (typeof result === "string") notes.push(result);
+    } catch (error) {
+      console.error("[Memory] Error updating item:", error);
+    }
+    clean = clean.replace(match[0], "");
+  }
+
+  // [DONE: goal id or search text]
   for (const match of response.matchAll(/\[DONE:\s*(.+?)\]/gi)) {
-    const searchText = match[1].trim();
+    const ref = match[1].trim();
     try {
-      await markGoalComplete(searchText);
-      console.log(`[Memory] Marked goal complete: ${searchText}`);
+      const result = await markGoalComplete(ref, scope);
+      if (typeof result === "string") notes.push(result);
     } catch (error) {
       console.error("[Memory] Error marking goal complete:", error);
     }
     clean = clean.replace(match[0], "");
   }
 
-  return clean.trim();
+  // [FORGET: id or search text]
+  for (const match of response.matchAll(/\[FORGET:\s*(.+?)\]/gi)) {
+    const ref = match[1].trim();
+    try {
+      const result = await forgetItem(ref, scope);
+      if (typeof result === "string") notes.push(result);
+    } catch (error) {
+      console.error("[Memory] Error forgetting item:", error);
+    }
+    clean = clean.replace(match[0], "");
+  }
+
+  clean = clean.trim();
+  return notes.length ? `${clean}\n\n${notes.join("\n\n")}` : clean;
 }
 
 // ============================================================
-// MCP STORAGE
+// STORAGE
 // ============================================================
 
-async function saveMemory(content: string, type: string, deadline?: string): Promise<void> {
-  const client = await getMcpClient();
-  
-  const title = content.substring(0, 100);
-  const nature = type === "fact" ? "know" : "action";
-  const subject = deadline ? `DEADLINE: ${deadline}` : "";
-  
-  await client.callTool({
-    name: "ledger_item_create",
-    arguments: {
-      title,
-      status: "inbox",
-      priority: "medium",
-      nature,
-      subject,
-      category: "memory"
-    }
+async function saveMemory(
+  content: string,
+  type: MemoryType,
+  scope: MemoryScope,
+  options?: { deadline?: string; shared?: boolean }
+): Promise<void> {
+  await store.add({
+    type,
+    content,
+    scope: scopeCategory(scope, options?.shared ?? false),
+    deadline: options?.deadline ? normalizeDeadline(options.deadline) : undefined,
   });
 }
 
-async function markGoalComplete(searchText: string): Promise<void> {
-  // Search for the goal and mark it as done
-  const client = await getMcpClient();
-  
-  const result = await client.callTool({
-    name: "ledger_query",
-    arguments: {
-      query: searchText,
-      limit: 5
-    }
-  });
-  
-  // Parse result and mark first matching goal as done
+/**
+ * Complete the goal a reference points at. Returns the goal, or a note for
+ * the user if it matched no goal or several.
+ */
+async function markGoalComplete(ref: string, scope: MemoryScope): Promise<MemoryItem | string> {
+  const goals = await findItems(ref, ["goal"], scope);
+  if (!goals.length) {
+    console.log(`[Memory] Could not find goal to mark complete: ${ref}`);
+    return `No open goal matches "${ref}".`;
+  }
+  if (goals.length > 1) return ambiguityNote(ref, goals, "Which one is done?");
+  if (!canModify(goals[0], scope)) return `Only owners can complete team goals like "${goals[0].content}".`;
+
+  await store.complete(goals[0].id);
+  console.log(`[Memory] Marked goal complete: ${goals[0].content}`);
+  return goals[0];
+}
+
+async function updateItem(
+  ref: string,
+  scope: MemoryScope,
+  changes: { content?: string; deadline?: string }
+): Promise<MemoryItem | string> {
+  const items = await findItems(ref, ["fact", "preference", "goal"], scope);
+  if (!items.length) return `Nothing in memory matches "${ref}".`;
+  if (items.length > 1) return ambiguityNote(ref, items, "Which one should change?");
+  if (!canModify(items[0], scope)) return `Only owners can change team items like "${items[0].content}".`;
+  if (changes.content === undefined && changes.deadline === undefined) return items[0];
+
+  if (changes.deadline !== undefined) changes = { ...changes, deadline: normalizeDeadline(changes.deadline) };
+  await store.update(items[0].id, changes);
+  console.log(`[Memory] Updated ${shortId(items[0])}: ${(changes.content ?? items[0].content).substring(0, 50)}...`);
+  return { ...items[0], ...changes };
+}
+
+async function forgetItem(ref: string, scope: MemoryScope): Promise<MemoryItem | string> {
+  const items = await findItems(ref, ["fact", "preference", "goal"], scope);
+  if (!items.length) return `Nothing in memory matches "${ref}".`;
+  if (items.length > 1) return ambiguityNote(ref, items, "Which one should I forget?");
+  if (!canModify(items[0], scope)) return `Only owners can remove team items like "${items[0].content}".`;
+
+  await store.remove(items[0].id);
+  console.log(`[Memory] Forgot ${shortId(items[0])}: ${items[0].content.substring(0, 50)}...`);
+  return items[0];
+}
+
+/**
+ * Keep an exchange as conversation history (backends with a messages table).
+ */
+export async function saveConversation(
+  userText: string,
+  reply: string,
+  scope: MemoryScope,
+  channel: string
+): Promise<void> {
+  const metadata = { chat: scope.chat, user: scope.user };
   try {
-    const data = JSON.parse(result.content[0].text);
-    if (data.data?.items?.length) {
-      const firstItem = data.data.items[0];
-      if (firstItem && firstItem.id) {
-        await client.callTool({
-          name: "ledger_item_update",
-          arguments: {
-            id: firstItem.id,
-            status: "done"
-          }
-        });
-        console.log(`[Memory] Marked goal complete: ${firstItem.title}`);
-        return;
-      }
-    }
+    await store.saveMessage({ role: "user", content: userText, channel, metadata });
+    await store.saveMessage({ role: "assistant", content: reply, channel, metadata });
   } catch (error) {
-    console.error("[Memory] Error parsing ledger result:", error);
+    console.error("[Memory] Error saving conversation:", error);
   }
-  
-  console.log(`[Memory] Could not find goal to mark complete: ${searchText}`);
 }
 
 // ============================================================
@@ -172,53 +416,48 @@ async function markGoalComplete(searchText: string): Promise<void> {
 // ============================================================
 
 /**
- * Get facts and active goals for prompt context.
+ * Get facts and active goals visible to the caller for prompt context.
  */
-export async function getMemoryContext(): Promise<string> {
+export async function getMemoryContext(scope: MemoryScope): Promise<string> {
   try {
-    const client = await getMcpClient();
-    
-    // Get todo items (goals)
-    const todoResult = await client.callTool({
-      name: "ledger_query",
-      arguments: { status: "todo", limit: 10 }
-    });
-    
-    // Get inbox items
-    const inboxResult = await client.callTool({
-      name: "ledger_query",
-      arguments: { status: "inbox", limit: 10 }
-    });
+    const [factItems, preferenceItems, goalItems] = await Promise.all([
+      listVisible("fact", scope),
+      listVisible("preference", scope),
+      listVisible("goal", scope),
+    ]);
     
     const parts: string[] = [];
     
-    // Parse inbox items as facts/context
-    try {
-      const inboxData = JSON.parse(inboxResult.content[0].text);
-      if (inboxData.data?.items?.length) {
-        const facts = inboxData.data.items
-          .filter((i: any) => i.nature === "know")
-          .map((i: any) => i.title)
-          .join("\n");
-        if (facts) {
-          parts.push(`FACTS:\n${facts}`);
-        }
-      }
-    } catch {
-      // Ignore parse errors
+    // Team facts marked
+    const facts = factItems
+      .slice(0, CONTEXT_LIMIT)
+      .map((i) => (i.scope === SHARED_SCOPE ? `${describeItem(i)} (team)` : describeItem(i)))
+      .join("\n");
+    if (facts) {
+      parts.push(`FACTS:\n${facts}`);
+    }
+
+    const preferences = preferenceItems
+      .slice(0, CONTEXT_LIMIT)
+      .map(describeItem)
+      .join("\n");
+    if (preferences) {
+      parts.push(`PREFERENCES:\n${preferences}`);
     }
     
-    // Parse todo items as goals
-    try {
-      const todoData = JSON.parse(todoResult.content[0].text);
-      if (todoData.data?.items?.length) {
-        const goals = todoData.data.items
-          .map((i: any) => `- ${i.title}`)
-          .join("\n");
-        parts.push(`PENDING:\n${goals}`);
-      }
-    } catch {
-      // Ignore parse errors
+    // Overdue goals first
+    const now = Date.now();
+    const isOverdue = (i: MemoryItem) => (deadlineTime(i.deadline) ?? Infinity) < now;
+    const goals = [...goalItems.filter(isOverdue), ...goalItems.filter((i) => !isOverdue(i))]
+      .slice(0, CONTEXT_LIMIT)
+      .map((i) => {
+        if (!i.deadline) return `- ${describeItem(i)}`;
+        const due = formatDeadline(i.deadline);
+        return isOverdue(i) ? `- ${describeItem(i)} (OVERDUE, was due ${due})` : `- ${describeItem(i)} (by ${due})`;
+      })
+      .join("\n");
+    if (goals) {
+      parts.push(`PENDING:\n${goals}`);
     }
     
     return parts.join("\n\n");
@@ -229,27 +468,16 @@ export async function getMemoryContext(): Promise<string> {
 }
 
 /**
- * Semantic search for relevant context.
+ * Search for relevant context visible to the caller.
  */
-export async function getRelevantContext(query: string): Promise<string> {
+export async function getRelevantContext(query: string, scope: MemoryScope): Promise<string> {
   try {
-    const client = await getMcpClient();
-    
-    const result = await client.callTool({
-      name: "ledger_query",
-      arguments: { query, limit: 5 }
-    });
-    
-    try {
-      const data = JSON.parse(result.content[0].text);
-      if (data.data?.items?.length) {
-        const context = data.data.items
-          .map((i: any) => `[${i.nature}]: ${i.title}`)
-          .join("\n");
-        return `RELEVANT CONTEXT:\n${context}`;
-      }
-    } catch {
-      // Ignore parse errors
+    const items = (await searchVisible(query, scope)).slice(0, 5);
+    if (items.length) {
+      const context = items
+        .map((i) => `[${shortId(i)}] ${i.type}: ${i.content}`)
+        .join("\n");
+      return `RELEVANT CONTEXT:\n${context}`;
     }
     
     return "";
@@ -260,23 +488,82 @@ export async function getRelevantContext(query: string): Promise<string> {
 }
 
 // ============================================================
-// MCP TEST
+// MEMORY COMMANDS
 // ============================================================
 
-export async function testMcpConnection(): Promise<boolean> {
+/**
+ * Items of the given types visible to the caller, newest first.
+ */
+export async function listMemory(types: MemoryType[], scope: MemoryScope): Promise<MemoryItem[]> {
+  const lists = await Promise.all(types.map((type) => listVisible(type, scope)));
+  return lists.flat().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function searchMemory(query: string, scope: MemoryScope): Promise<MemoryItem[]> {
+  return searchVisible(query, scope);
+}
+
+export async function completeGoal(ref: string, scope: MemoryScope): Promise<string> {
+  const result = await markGoalComplete(ref, scope);
+  return typeof result === "string" ? result : `Done: ${result.content}`;
+}
+
+export async function editMemory(ref: string, content: string, scope: MemoryScope): Promise<string> {
+  const result = await updateItem(ref, scope, { content });
+  return typeof result === "string" ? result : `Updated [${shortId(result)}]: ${result.content}`;
+}
+
+export async function forgetMemory(ref: string, scope: MemoryScope): Promise<string> {
+  const result = await forgetItem(ref, scope);
+  return typeof result === "string" ? result : `Forgot: ${result.content}`;
+}
+
+// ============================================================
+// REMINDERS
+// ============================================================
+
+/**
+ * Open goals of all users with a parsed deadline (for the reminder scheduler).
+ */
+export async function listScheduledGoals(): Promise<MemoryItem[]> {
+  return (await store.list("goal", SCHEDULE_LIMIT)).filter((i) => deadlineTime(i.deadline) !== null);
+}
+
+/**
+ * Whether the scope's user may act on the open goal with this ID (e.g.
+ * snooze its reminders): a goal they can see and change.
+ */
+export async function canChangeGoal(id: string, scope: MemoryScope): Promise<boolean> {
+  const goals = await findItems(id, ["goal"], scope);
+  return goals.length === 1 && goals[0].id === id && canModify(goals[0], scope);
+}
+
+/**
+ * Chat an item was saved in (session key string), or null for team and
+ * unscoped items.
+ */
+export function itemChat(item: MemoryItem): string | null {
+  return item.scope.match(/^memory:user:.+\|chat:(.+)$/)?.[1] ?? null;
+}
+
+// ============================================================
+// STARTUP CHECK
+// ============================================================
+
+export function memoryBackend(): string {
+  return store.name;
+}
+
+/**
+ * Connect to (or create) the memory backend. Returns false if it's unusable.
+ */
+export async function initMemory(): Promise<boolean> {
   try {
-    const client = await getMcpClient();
-    
-    // Try a simple query to verify connection
-    const result = await client.callTool({
-      name: "ledger_query",
-      arguments: { status: "inbox", limit: 1 }
-    });
-    
-    console.log("[Memory] MCP connection successful");
+    await store.init();
+    console.log(`[Memory] ${store.name} backend ready`);
     return true;
   } catch (error) {
-    console.error("[Memory] MCP connection failed:", error);
+    console.error(`[Memory] ${store.name} backend failed:`, error);
     return false;
   }
 }
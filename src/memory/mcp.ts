@@ -0,0 +1,207 @@
+/**
+ * MCP Ledger Memory Store
+ *
+ * Keeps memory as items on an MCP server exposing ledger_query,
+ * ledger_item_create, ledger_item_update and ledger_item_delete (Diego's MCP):
+ *   facts        → nature "know", status "inbox"
+ *   preferences  → nature "know", subject "PREFERENCE"
+ *   goals        → nature "action", status "inbox" or "todo"
+ *   done         → status "done"
+ * The scope goes in the item's category, a deadline in its subject.
+ * Queries for exact scopes filter by category; queries that also need all
+ * of a user's chats or unscoped items page through results until enough
+ * match.
+ *
+ * The MCP SDK is loaded on first use, so the other backends work without it.
+ */
+
+import { matchesScopeFilter } from "./types.ts";
+import type { MemoryChanges, MemoryItem, MemoryStore, MemoryType, NewMemory, ScopeFilter } from "./types.ts";
+
+export interface McpStoreOptions {
+  url: string;
+  apiKey?: string;
+}
+
+const DEADLINE_PREFIX = "DEADLINE: ";
+const PREFERENCE_SUBJECT = "PREFERENCE";
+// Pages fetched at most when filtering by scope prefix
+const MAX_PAGES = 10;
+
+function toItem(raw: any): MemoryItem {
+  const subject = String(raw?.subject || "");
+  const type: MemoryType =
+    raw?.status === "done" ? "completed_goal"
+    : raw?.nature === "know" ? (subject === PREFERENCE_SUBJECT ? "preference" : "fact")
+    : "goal";
+  return {
+    id: String(raw?.id ?? ""),
+    type,
+    content: String(raw?.title || ""),
+    scope: String(raw?.category || ""),
+    deadline: subject.startsWith(DEADLINE_PREFIX) ? subject.substring(DEADLINE_PREFIX.length) : null,
+    createdAt: String(raw?.created_at || raw?.createdAt || ""),
+    completedAt: raw?.status === "done" ? String(raw?.updated_at || raw?.updatedAt || "") : null,
+  };
+}
+
+function parseItems(result: any): MemoryItem[] {
+  try {
+    const data = JSON.parse(result.content[0].text);
+    return (data.data?.items || []).map(toItem);
+  } catch {
+    return [];
+  }
+}
+
+export function createMcpStore(options: McpStoreOptions): MemoryStore {
+  let client: any = null;
+  let clientPromise: Promise<any> | null = null;
+
+  async function getClient(): Promise<any> {
+    if (client) return client;
+
+    // Prevent race condition with proper mutex
+    if (clientPromise) return clientPromise;
+
+    clientPromise = (async () => {
+      const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+      const { SSEClientTransport } = await import("@modelcontextprotocol/sdk/client/sse.js");
+
+      // Build headers with API key instead of query string
+      const headers: Record<string, string> = {};
+      if (options.apiKey) headers["x-api-key"] = options.apiKey;
+
+      const transport = new SSEClientTransport(new URL(options.url), { headers });
+      const connected = new Client({ name: "discord-telegram-relay", version: "1.0.0" });
+      await connected.connect(transport);
+
+      console.log("[Memory] MCP connected");
+      client = connected;
+      return connected;
+    })();
+
+    // Allow a retry after a failed connect
+    clientPromise.catch(() => (clientPromise = null));
+    return clientPromise;
+  }
+
+  async function query(args: Record<string, unknown>): Promise<MemoryItem[]> {
+    const mcp = await getClient();
+    return parseItems(await mcp.callTool({ name: "ledger_query", arguments: args }));
+  }
+
+  /**
+   * Up to `limit` items matching the query, `keep` and the scope filter.
+   */
+  async function queryScoped(
+    args: Record<string, unknown>,
+    limit: number,
+    filter: ScopeFilter | undefined,
+    keep: (item: MemoryItem) => boolean = () => true
+  ): Promise<MemoryItem[]> {
+    if (!filter) return (await query({ ...args, limit })).filter(keep).slice(0, limit);
+
+    // Exact scopes only: one query per category
+    if (!filter.prefixes.length && !filter.unscoped) {
+      const lists = await Promise.all(filter.scopes.map((category) => query({ ...args, category, limit })));
+      return lists.flat().filter(keep).slice(0, limit);
+    }
+
+    const found: MemoryItem[] = [];
+    const seen = new Set<string>();
+    for (let page = 0; page < MAX_PAGES && found.length < limit; page++) {
+      const items = await query({ ...args, limit, offset: page * limit });
+      const fresh = items.filter((i) => !seen.has(i.id));
+      // Servers without offset return the same page again
+      if (!fresh.length) break;
+      fresh.forEach((i) => seen.add(i.id));
+      found.push(...fresh.filter((i) => keep(i) && matchesScopeFilter(i.scope, filter)));
+      if (items.length < limit) break;
+    }
+    return found.slice(0, limit);
+  }
+
+  return {
+    name: "mcp",
+
+    async init() {
+      await query({ status: "inbox", limit: 1 });
+    },
+
+    async add(item: NewMemory) {
+      const mcp = await getClient();
+      const result = await mcp.callTool({
+        name: "ledger_item_create",
+        arguments: {
+          title: item.content.substring(0, 100),
+          status: "inbox",
+          priority: "medium",
+          nature: item.type === "goal" ? "action" : "know",
+          subject:
+            item.type === "preference" ? PREFERENCE_SUBJECT
+            : item.deadline ? `${DEADLINE_PREFIX}${item.deadline}`
+            : "",
+          category: item.scope,
+        },
+      });
+
+      let id = "";
+      try {
+        const data = JSON.parse(result.content[0].text);
+        id = String(data.data?.id ?? data.data?.item?.id ?? "");
+      } catch {
+        // Older servers don't return the item
+      }
+      return {
+        id,
+        type: item.type,
+        content: item.content,
+        scope: item.scope,
+        deadline: item.deadline ?? null,
+        createdAt: new Date().toISOString(),
+        completedAt: null,
+      };
+    },
+
+    async list(type: MemoryType, limit: number, filter?: ScopeFilter) {
+      if (type === "completed_goal") return queryScoped({ status: "done" }, limit, filter);
+
+      const ofType = (i: MemoryItem) => i.type === type;
+      const items = await queryScoped({ status: "inbox" }, limit, filter, ofType);
+      if (type !== "goal") return items;
+
+      // Goals: planned ("todo") items plus new action items in the inbox
+      const todo = await queryScoped({ status: "todo" }, limit, filter);
+      return [...todo, ...items].slice(0, limit);
+    },
+
+    async search(text: string, limit: number, filter?: ScopeFilter) {
+      return queryScoped({ query: text }, limit, filter);
+    },
+
+    async complete(id: string) {
+      const mcp = await getClient();
+      await mcp.callTool({ name: "ledger_item_update", arguments: { id, status: "done" } });
+    },
+
+    async update(id: string, changes: MemoryChanges) {
+      const args: Record<string, unknown> = { id };
+      if (changes.content !== undefined) args.title = changes.content.substring(0, 100);
+      if (changes.deadline !== undefined) {
+        args.subject = changes.deadline ? `${DEADLINE_PREFIX}${changes.deadline}` : "";
+      }
+      const mcp = await getClient();
+      await mcp.callTool({ name: "ledger_item_update", arguments: args });
+    },
+
+    async remove(id: string) {
+      const mcp = await getClient();
+      await mcp.callTool({ name: "ledger_item_delete", arguments: { id } });
+    },
+
+    async saveMessage() {
+      // The ledger has no conversation history
+    },
+  };
+}
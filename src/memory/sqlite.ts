@@ -0,0 +1,217 @@
+/**
+ * Local SQLite Memory Store
+ *
+ * Zero-dependency backend on bun:sqlite, so memory works fully offline.
+ * Tables mirror db/schema.sql (`memory`, `messages`) with the scope as a
+ * column; an FTS5 index over memory content (kept in sync by triggers)
+ * powers search.
+ */
+
+import { Database } from "bun:sqlite";
+import { randomUUID } from "crypto";
+import { USER_SCOPE_PREFIX } from "./types.ts";
+import type {
+  MemoryChanges,
+  MemoryItem,
+  MemoryStore,
+  MemoryType,
+  NewMemory,
+  ScopeFilter,
+  StoredMessage,
+} from "./types.ts";
+
+export interface SqliteStoreOptions {
+  path: string;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS memory (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('fact', 'goal', 'completed_goal', 'preference')),
+  content TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT '',
+  deadline TEXT,
+  completed_at TEXT,
+  priority INTEGER DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS idx_memory_type ON memory(type, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL,
+  channel TEXT DEFAULT 'telegram',
+  metadata TEXT DEFAULT '{}'
+);
+CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at DESC);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS memory_fts USING fts5(content, content='memory', content_rowid='rowid');
+
+CREATE TRIGGER IF NOT EXISTS memory_ai AFTER INSERT ON memory BEGIN
+  INSERT INTO memory_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+CREATE TRIGGER IF NOT EXISTS memory_ad AFTER DELETE ON memory BEGIN
+  INSERT INTO memory_fts(memory_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+CREATE TRIGGER IF NOT EXISTS memory_au AFTER UPDATE OF content ON memory BEGIN
+  INSERT INTO memory_fts(memory_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+  INSERT INTO memory_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+`;
+
+function toItem(row: any): MemoryItem {
+  return {
+    id: row.id,
+    type: row.type,
+    content: row.content,
+    scope: row.scope,
+    deadline: row.deadline,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * FTS5 query matching any of the words (quoted, so user text can't break
+ * the query syntax).
+ */
+function ftsQuery(query: string): string | null {
+  const words = [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || [])].slice(0, 10);
+  return words.length ? words.map((w) => `"${w}"`).join(" OR ") : null;
+}
+
+/**
+ * SQL condition (and its parameters) for items matching a scope filter.
+ */
+function scopeCondition(filter?: ScopeFilter): { sql: string; params: string[] } {
+  if (!filter) return { sql: "1", params: [] };
+
+  const clauses: string[] = [];
+  const params: string[] = [];
+  if (filter.scopes.length) {
+    clauses.push(`memory.scope IN (${filter.scopes.map(() => "?").join(", ")})`);
+    params.push(...filter.scopes);
+  }
+  for (const prefix of filter.prefixes) {
+    clauses.push("instr(memory.scope, ?) = 1");
+    params.push(prefix);
+  }
+  if (filter.unscoped) {
+    clauses.push("instr(memory.scope, ?) != 1");
+    params.push(USER_SCOPE_PREFIX);
+  }
+  return { sql: clauses.length ? `(${clauses.join(" OR ")})` : "0", params };
+}
+
+export function createSqliteStore(options: SqliteStoreOptions): MemoryStore {
+  let db: Database | null = null;
+
+  function open(): Database {
+    if (!db) {
+      db = new Database(options.path, { create: true });
+      db.exec("PRAGMA journal_mode = WAL");
+      db.exec(SCHEMA);
+    }
+    return db;
+  }
+
+  return {
+    name: "sqlite",
+
+    async init() {
+      open();
+    },
+
+    async add(item: NewMemory) {
+      const now = new Date().toISOString();
+      const row = {
+        id: randomUUID(),
+        created_at: now,
+        updated_at: now,
+        type: item.type,
+        content: item.content,
+        scope: item.scope,
+        deadline: item.deadline ?? null,
+        completed_at: null,
+      };
+      open()
+        .query(
+          `INSERT INTO memory (id, created_at, updated_at, type, content, scope, deadline)
+           VALUES ($id, $created_at, $updated_at, $type, $content, $scope, $deadline)`
+        )
+        .run({
+          $id: row.id,
+          $created_at: row.created_at,
+          $updated_at: row.updated_at,
+          $type: row.type,
+          $content: row.content,
+          $scope: row.scope,
+          $deadline: row.deadline,
+        });
+      return toItem(row);
+    },
+
+    async list(type: MemoryType, limit: number, filter?: ScopeFilter) {
+      const scope = scopeCondition(filter);
+      return open()
+        .query(`SELECT * FROM memory WHERE type = ? AND ${scope.sql} ORDER BY created_at DESC LIMIT ?`)
+        .all(type, ...scope.params, limit)
+        .map(toItem);
+    },
+
+    async search(query: string, limit: number, filter?: ScopeFilter) {
+      const match = ftsQuery(query);
+      if (!match) return [];
+      const scope = scopeCondition(filter);
+      return open()
+        .query(
+          `SELECT memory.* FROM memory_fts
+           JOIN memory ON memory.rowid = memory_fts.rowid
+           WHERE memory_fts MATCH ? AND ${scope.sql}
+           ORDER BY bm25(memory_fts) LIMIT ?`
+        )
+        .all(match, ...scope.params, limit)
+        .map(toItem);
+    },
+
+    async complete(id: string) {
+      const now = new Date().toISOString();
+      open()
+        .query("UPDATE memory SET type = 'completed_goal', completed_at = ?, updated_at = ? WHERE id = ?")
+        .run(now, now, id);
+    },
+
+    async update(id: string, changes: MemoryChanges) {
+      const item = open().query("SELECT * FROM memory WHERE id = ?").get(id) as any;
+      if (!item) return;
+      open()
+        .query("UPDATE memory SET content = ?, deadline = ?, updated_at = ? WHERE id = ?")
+        .run(
+          changes.content ?? item.content,
+          changes.deadline !== undefined ? changes.deadline : item.deadline,
+          new Date().toISOString(),
+          id
+        );
+    },
+
+    async remove(id: string) {
+      open().query("DELETE FROM memory WHERE id = ?").run(id);
+    },
+
+    async saveMessage(message: StoredMessage) {
+      open()
+        .query("INSERT INTO messages (id, created_at, role, content, channel, metadata) VALUES (?, ?, ?, ?, ?, ?)")
+        .run(
+          randomUUID(),
+          new Date().toISOString(),
+          message.role,
+          message.content,
+          message.channel,
+          JSON.stringify(message.metadata)
+        );
+    },
+  };
+}
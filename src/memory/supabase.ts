@@ -0,0 +1,173 @@
+/**
+ * Supabase Memory Store
+ *
+ * Uses the `memory` and `messages` tables from db/schema.sql through
+ * Supabase's REST API (plain fetch, no client library). The scope is kept
+ * in `metadata.scope`; deadlines that aren't dates go in `metadata.deadline`.
+ *
+ * Search matches words in the content. Semantic search through the embed
+ * and search Edge Functions isn't used.
+ */
+
+import { USER_SCOPE_PREFIX } from "./types.ts";
+import type {
+  MemoryChanges,
+  MemoryItem,
+  MemoryStore,
+  MemoryType,
+  NewMemory,
+  ScopeFilter,
+  StoredMessage,
+} from "./types.ts";
+
+export interface SupabaseStoreOptions {
+  url: string;
+  key: string;
+}
+
+// Deadlines that fit the timestamptz column
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function toItem(row: any): MemoryItem {
+  return {
+    id: String(row.id),
+    type: row.type,
+    content: String(row.content || ""),
+    scope: String(row.metadata?.scope || ""),
+    deadline: row.deadline ?? row.metadata?.deadline ?? null,
+    createdAt: String(row.created_at || ""),
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+/**
+ * Split a deadline into the timestamptz column and free text for metadata.
+ */
+function deadlineColumns(deadline: string | null): { column: string | null; metadata: { deadline?: string } } {
+  if (!deadline) return { column: null, metadata: {} };
+  return ISO_DATE.test(deadline) ? { column: deadline, metadata: {} } : { column: null, metadata: { deadline } };
+}
+
+/**
+ * PostgREST conditions matching any of the query's words.
+ */
+function searchConditions(query: string): string[] {
+  const words = [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || [])].slice(0, 10);
+  return words.map((w) => `content.ilike.*${w}*`);
+}
+
+/** Quoted PostgREST value (scopes contain ":" and "|") */
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * PostgREST conditions matching any scope the filter allows.
+ */
+function scopeConditions(filter: ScopeFilter): string[] {
+  const conditions: string[] = [];
+  if (filter.scopes.length) conditions.push(`metadata->>scope.in.(${filter.scopes.map(quote).join(",")})`);
+  for (const prefix of filter.prefixes) conditions.push(`metadata->>scope.like.${quote(`${prefix}*`)}`);
+  if (filter.unscoped) {
+    conditions.push("metadata->>scope.is.null", `metadata->>scope.not.like.${quote(`${USER_SCOPE_PREFIX}*`)}`);
+  }
+  return conditions;
+}
+
+/**
+ * Query parameter requiring one of each group of conditions.
+ */
+function anyOfEach(groups: string[][]): string {
+  if (groups.length === 1) return `or=${encodeURIComponent(`(${groups[0].join(",")})`)}`;
+  const value = `(${groups.map((group) => `or(${group.join(",")})`).join(",")})`;
+  return `and=${encodeURIComponent(value)}`;
+}
+
+export function createSupabaseStore(options: SupabaseStoreOptions): MemoryStore {
+  const base = `${options.url.replace(/\/$/, "")}/rest/v1`;
+  const headers = {
+    apikey: options.key,
+    Authorization: `Bearer ${options.key}`,
+    "Content-Type": "application/json",
+  };
+
+  async function request(path: string, init?: RequestInit): Promise<any> {
+    const response = await fetch(`${base}/${path}`, { ...init, headers: { ...headers, ...init?.headers } });
+    if (!response.ok) {
+      throw new Error(`Supabase ${response.status}: ${(await response.text()).substring(0, 200)}`);
+    }
+    const body = await response.text();
+    return body ? JSON.parse(body) : null;
+  }
+
+  return {
+    name: "supabase",
+
+    async init() {
+      await request("memory?select=id&limit=1");
+      await request("messages?select=id&limit=1");
+    },
+
+    async add(item: NewMemory) {
+      const deadline = deadlineColumns(item.deadline ?? null);
+      const rows = await request("memory", {
+        method: "POST",
+        headers: { Prefer: "return=representation" },
+        body: JSON.stringify({
+          type: item.type,
+          content: item.content,
+          deadline: deadline.column,
+          metadata: { scope: item.scope, ...deadline.metadata },
+        }),
+      });
+      return toItem(rows[0]);
+    },
+
+    async list(type: MemoryType, limit: number, filter?: ScopeFilter) {
+      const scope = filter ? `&${anyOfEach([scopeConditions(filter)])}` : "";
+      const rows = await request(`memory?type=eq.${type}${scope}&order=created_at.desc&limit=${limit}`);
+      return rows.map(toItem);
+    },
+
+    async search(query: string, limit: number, filter?: ScopeFilter) {
+      const words = searchConditions(query);
+      if (!words.length) return [];
+      const conditions = anyOfEach(filter ? [words, scopeConditions(filter)] : [words]);
+      const rows = await request(`memory?${conditions}&order=created_at.desc&limit=${limit}`);
+      return rows.map(toItem);
+    },
+
+    async complete(id: string) {
+      const now = new Date().toISOString();
+      await request(`memory?id=eq.${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        body: JSON.stringify({ type: "completed_goal", completed_at: now, updated_at: now }),
+      });
+    },
+
+    async update(id: string, changes: MemoryChanges) {
+      const filter = `memory?id=eq.${encodeURIComponent(id)}`;
+      const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (changes.content !== undefined) patch.content = changes.content;
+
+      if (changes.deadline !== undefined) {
+        // metadata is replaced as a whole, so keep the scope
+        const [row] = await request(`${filter}&select=metadata`);
+        const { deadline: _old, ...metadata } = row?.metadata || {};
+        const deadline = deadlineColumns(changes.deadline);
+        patch.deadline = deadline.column;
+        patch.metadata = { ...metadata, ...deadline.metadata };
+      }
+
+      await request(filter, { method: "PATCH", body: JSON.stringify(patch) });
+    },
+
+    async remove(id: string) {
+      await request(`memory?id=eq.${encodeURIComponent(id)}`, { method: "DELETE" });
+    },
+
+    async saveMessage(message: StoredMessage) {
+      await request("messages", { method: "POST", body: JSON.stringify(message) });
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Memory Store Types
+ *
+ * Every memory backend (MCP ledger, Supabase, local SQLite) implements
+ * MemoryStore, so intent parsing, scoping and prompt context in memory.ts
+ * are written once.
+ */
+
+// ============================================================
+// ITEMS
+// ============================================================
+
+export type MemoryType = "fact" | "goal" | "completed_goal" | "preference";
+
+export interface MemoryItem {
+  id: string;
+  type: MemoryType;
+  content: string;
+  /** Owner of the item (see the scopes in memory.ts); "" if saved without one */
+  scope: string;
+  /** Deadline as given (ISO date or free text) */
+  deadline: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface NewMemory {
+  type: MemoryType;
+  content: string;
+  scope: string;
+  deadline?: string;
+}
+
+export interface MemoryChanges {
+  content?: string;
+  /** New deadline, or null to clear it */
+  deadline?: string | null;
+}
+
+/**
+ * A chat message kept as conversation history.
+ */
+export interface StoredMessage {
+  role: "user" | "assistant";
+  content: string;
+  /** Platform the message came from (telegram, discord, ...) */
+  channel: string;
+  /** Chat and user keys */
+  metadata: Record<string, string>;
+}
+
+// ============================================================
+// SCOPE FILTERS
+// ============================================================
+
+/**
+ * Which items a query returns, by their scope. Backends filter on this so
+ * other users' items don't crowd a user's own out of the result limit.
+ */
+export interface ScopeFilter {
+  /** Exact scopes */
+  scopes: string[];
+  /** Scope prefixes (all chats of a user) */
+  prefixes: string[];
+  /** Also items not owned by a user: saved before scopes, or not by the relay */
+  unscoped: boolean;
+}
+
+/** Prefix of every user-owned scope */
+export const USER_SCOPE_PREFIX = "memory:user:";
+
+export function matchesScopeFilter(scope: string, filter: ScopeFilter): boolean {
+  if (filter.scopes.includes(scope)) return true;
+  if (filter.prefixes.some((prefix) => scope.startsWith(prefix))) return true;
+  return filter.unscoped && !scope.startsWith(USER_SCOPE_PREFIX);
+}
+
+// ============================================================
+// STORE
+// ============================================================
+
+export interface MemoryStore {
+  /** Backend name for logs and /status */
+  readonly name: string;
+
+  /** Connect or create tables. Throws if the backend is unusable. */
+  init(): Promise<void>;
+
+  add(item: NewMemory): Promise<MemoryItem>;
+
+  /** Most recent items of a type, newest first; all scopes without a filter */
+  list(type: MemoryType, limit: number, filter?: ScopeFilter): Promise<MemoryItem[]>;
+
+  /** Items matching a free-text query, best match first */
+  search(query: string, limit: number, filter?: ScopeFilter): Promise<MemoryItem[]>;
+
+  /** Mark a goal as completed */
+  complete(id: string): Promise<void>;
+
+  /** Change an item's content or deadline */
+  update(id: string, changes: MemoryChanges): Promise<void>;
+
+  /** Delete an item */
+  remove(id: string): Promise<void>;
+
+  /** Keep a message as conversation history (no-op if unsupported) */
+  saveMessage(message: StoredMessage): Promise<void>;
+}
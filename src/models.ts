@@ -0,0 +1,107 @@
+/**
+ * Model Routing
+ *
+ * Picks the Claude model for a request, in order of precedence:
+ *   1. inline prefix on the message:  "!opus explain this"
+ *   2. model pinned for the conversation with /model
+ *   3. the workspace's default model
+ *   4. automatic router (MODEL_ROUTER=true): short chat → fast model,
+ *      long or code/analysis heavy prompts → strong model
+ *   5. CLAUDE_MODEL, or the CLI's default if unset
+ *
+ * Models are CLI aliases (opus, sonnet, haiku) or full model IDs.
+ */
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const CLAUDE_MODEL = process.env.CLAUDE_MODEL || "";
+const MODEL_ROUTER = process.env.MODEL_ROUTER === "true";
+const ROUTER_FAST_MODEL = process.env.ROUTER_FAST_MODEL || "haiku";
+const ROUTER_STRONG_MODEL = process.env.ROUTER_STRONG_MODEL || "opus";
+
+export const MODEL_ALIASES = ["opus", "sonnet", "haiku"];
+
+const INLINE_PREFIX = /^\s*!([\w.-]+)\b\s*/;
+const FULL_MODEL_ID = /^claude-[a-z0-9.-]+$/;
+
+// Prompts that benefit from the stronger model
+const STRONG_KEYWORDS = /\b(refactor|architect\w*|design|debug|prove|proof|analy[sz]e|analysis|plan|strategy|review|step by step|trade-?offs?)\b/i;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ModelChoice {
+  /** Model to pass with --model (null = CLI default) */
+  model: string | null;
+  /** Why this model was picked (for logs and /model) */
+  reason: "inline" | "pinned" | "workspace" | "router" | "default";
+}
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Normalize a user-supplied model name. Returns null if it is not a known
+ * alias or a full model ID.
+ */
+export function normalizeModel(name: string): string | null {
+  const model = name.trim().toLowerCase();
+  if (MODEL_ALIASES.includes(model) || FULL_MODEL_ID.test(model)) return model;
+  return null;
+}
+
+/**
+ * Split off a one-off model prefix like "!opus". Other "!" words are left alone.
+ */
+export function parseModelPrefix(text: string): { model: string | null; text: string } {
+  const match = text.match(INLINE_PREFIX);
+  const model = match ? normalizeModel(match[1]) : null;
+  if (!model) return { model: null, text };
+  return { model, text: text.substring(match![0].length) };
+}
+
+// ============================================================
+// ROUTING
+// ============================================================
+
+/**
+ * Classify a prompt for the automatic router. Returns null when neither
+ * model is a clear fit (the default model is used).
+ */
+export function routeModel(text: string): string | null {
+  const hasAttachments = /^\[(Image|File): /m.test(text);
+  const hasCode = text.includes("```");
+
+  if (text.length > 2000 || hasCode || STRONG_KEYWORDS.test(text)) return ROUTER_STRONG_MODEL;
+  if (text.length < 200 && !hasAttachments) return ROUTER_FAST_MODEL;
+  return null;
+}
+
+export function chooseModel(options: {
+  inline?: string | null;
+  pinned?: string | null;
+  workspace?: string | null;
+  text: string;
+}): ModelChoice {
+  if (options.inline) return { model: options.inline, reason: "inline" };
+  if (options.pinned) return { model: options.pinned, reason: "pinned" };
+  if (options.workspace) return { model: options.workspace, reason: "workspace" };
+
+  if (MODEL_ROUTER) {
+    const routed = routeModel(options.text);
+    if (routed) return { model: routed, reason: "router" };
+  }
+
+  return { model: CLAUDE_MODEL || null, reason: "default" };
+}
+
+export function describeModelDefaults(): string {
+  const fallback = CLAUDE_MODEL || "CLI default";
+  return MODEL_ROUTER
+    ? `Router: on (${ROUTER_FAST_MODEL} for short chat, ${ROUTER_STRONG_MODEL} for heavy prompts, else ${fallback})`
+    : `Default: ${fallback}`;
+}
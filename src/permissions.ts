@@ -0,0 +1,338 @@
+/**
+ * Tool Permission Policy and Approvals
+ *
+ * Decides which tools Claude may use, per workspace and per chat, and lets
+ * the user approve anything else from the chat.
+ *
+ * Policy comes from config/permissions.json (see permissions.example.json):
+ *
+ *   {
+ *     "default":    { "allow": ["Read", "Grep"], "deny": ["Bash(rm:*)"], "mode": "default", "approvals": true },
+ *     "workspaces": { "blog": { "allow": ["Edit", "Bash(git:*)"] } },
+ *     "chats":      { "telegram:12345": { "allow": ["Bash"] } }
+ *   }
+ *
+ * Layers are merged default → workspace → chat → the sender's role (see
+ * access.ts): allow/deny lists add up, mode and approvals are overridden.
+ * A workspace's allowedTools/deniedTools from workspaces.json are added to
+ * its layer.
+ *
+ * Approvals: the CLI is given a permission prompt tool (a small stdio MCP
+ * server, approval-mcp.ts). When Claude wants a tool that is neither allowed
+ * nor denied, that server asks the relay over a local HTTP endpoint, the
+ * relay asks the user (buttons), and the answer goes back to the CLI.
+ * Every decision is appended to RELAY_DIR/audit.jsonl.
+ */
+
+import { appendFile, readFile } from "fs/promises";
+import { dirname, join } from "path";
+import { randomBytes, randomUUID } from "crypto";
+import type { Workspace } from "./workspaces.ts";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const PROJECT_ROOT = dirname(dirname(import.meta.path));
+const PERMISSIONS_FILE = process.env.PERMISSIONS_FILE || join(PROJECT_ROOT, "config", "permissions.json");
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
+const AUDIT_FILE = join(RELAY_DIR, "audit.jsonl");
+
+// Defaults when permissions.json doesn't set them
+const TOOL_APPROVALS = process.env.TOOL_APPROVALS === "true";
+const PERMISSION_MODE = process.env.PERMISSION_MODE || "";
+export const APPROVAL_TIMEOUT_MS = Number(process.env.APPROVAL_TIMEOUT_SEC || 300) * 1000;
+
+const APPROVAL_MCP_SCRIPT = join(dirname(import.meta.path), "approval-mcp.ts");
+// Name the CLI knows the prompt tool by: mcp__<server>__<tool>
+const APPROVAL_TOOL = "mcp__relay__approve";
+
+export const APPROVAL_ACTION_PREFIX = "approve:";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ToolPolicy {
+  allow: string[];
+  deny: string[];
+  /** --permission-mode (default, acceptEdits, plan, bypassPermissions) */
+  mode: string | null;
+  /** Ask in chat for tools that are neither allowed nor denied */
+  approvals: boolean;
+}
+
+export interface PolicyLayer {
+  allow?: string[];
+  deny?: string[];
+  mode?: string;
+  approvals?: boolean;
+}
+
+export interface ApprovalRequest {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+export interface ApprovalDecision {
+  allow: boolean;
+  /** Shown to Claude when denied */
+  reason?: string;
+  /** Who answered (user name, "timeout", "policy") */
+  decidedBy?: string;
+}
+
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+/** Context of a CLI run, for the audit log */
+export interface ApprovalRunInfo {
+  chat: string;
+  workspace: string | null;
+}
+
+// ============================================================
+// POLICY
+// ============================================================
+
+async function loadPolicyFile(): Promise<{
+  default?: PolicyLayer;
+  workspaces?: Record<string, PolicyLayer>;
+  chats?: Record<string, PolicyLayer>;
+}> {
+  try {
+    return JSON.parse(await readFile(PERMISSIONS_FILE, "utf-8"));
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") console.error("[Permissions] Could not read policy:", error?.message || error);
+    return {};
+  }
+}
+
+/**
+ * Effective policy for a chat (key without workspace) in a workspace.
+ * roleLayer (the sender's role limits) is applied last.
+ */
+export async function resolvePolicy(
+  chat: string,
+  workspace: Workspace | null,
+  roleLayer?: PolicyLayer
+): Promise<ToolPolicy> {
+  const file = await loadPolicyFile();
+  const workspaceLayer: PolicyLayer = {
+    ...(workspace ? file.workspaces?.[workspace.name] : undefined),
+  };
+  workspaceLayer.allow = [...(workspaceLayer.allow || []), ...(workspace?.allowedTools || [])];
+  workspaceLayer.deny = [...(workspaceLayer.deny || []), ...(workspace?.deniedTools || [])];
+
+  const layers = [file.default, workspaceLayer, file.chats?.[chat], roleLayer];
+  const policy: ToolPolicy = { allow: [], deny: [], mode: PERMISSION_MODE || null, approvals: TOOL_APPROVALS };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    policy.allow.push(...(layer.allow || []));
+    policy.deny.push(...(layer.deny || []));
+    if (layer.mode !== undefined) policy.mode = layer.mode || null;
+    if (layer.approvals !== undefined) policy.approvals = layer.approvals;
+  }
+
+  policy.allow = [...new Set(policy.allow)];
+  policy.deny = [...new Set(policy.deny)];
+  return policy;
+}
+
+/**
+ * CLI flags for a policy. approvalRun is the ID from registerApprovalRun,
+ * or null to run without interactive approvals.
+ */
+export function policyArgs(policy: ToolPolicy, approvalRun: string | null): string[] {
+  const args: string[] = [];
+  if (policy.allow.length) args.push("--allowedTools", policy.allow.join(","));
+  if (policy.deny.length) args.push("--disallowedTools", policy.deny.join(","));
+  if (policy.mode) args.push("--permission-mode", policy.mode);
+
+  if (approvalRun && approvalServer) {
+    const mcpConfig = {
+      mcpServers: {
+        relay: {
+          command: process.execPath,
+          args: ["run", APPROVAL_MCP_SCRIPT],
+          env: {
+            RELAY_APPROVAL_URL: `http://127.0.0.1:${approvalServer.port}/approve`,
+            RELAY_APPROVAL_TOKEN: approvalToken,
+            RELAY_APPROVAL_RUN: approvalRun,
+          },
+        },
+      },
+    };
+    args.push("--mcp-config", JSON.stringify(mcpConfig), "--permission-prompt-tool", APPROVAL_TOOL);
+  }
+
+  return args;
+}
+
+/**
+ * Short description of a tool request, e.g. "Bash: rm -rf build".
+ */
+export function describeToolRequest(request: ApprovalRequest): string {
+  const input = request.input;
+  const detail =
+    typeof input.command === "string" ? input.command
+    : typeof input.file_path === "string" ? input.file_path
+    : typeof input.url === "string" ? input.url
+    : typeof input.pattern === "string" ? input.pattern
+    : JSON.stringify(input);
+  const short = detail.length > 200 ? detail.substring(0, 199) + "…" : detail;
+  return short ? `${request.toolName}: ${short}` : request.toolName;
+}
+
+// ============================================================
+// APPROVAL SERVER
+// ============================================================
+
+let approvalServer: ReturnType<typeof Bun.serve> | null = null;
+const approvalToken = randomBytes(24).toString("hex");
+const runs = new Map<string, { handler: ApprovalHandler; info: ApprovalRunInfo }>();
+
+/**
+ * Start the loopback endpoint the approval MCP server calls (once).
+ */
+export function ensureApprovalServer(): void {
+  if (approvalServer) return;
+
+  approvalServer = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    // Requests stay open while the user decides
+    idleTimeout: 0,
+
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (req.method !== "POST" || url.pathname !== "/approve") return new Response("Not found", { status: 404 });
+      if (req.headers.get("authorization") !== `Bearer ${approvalToken}`) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      const body = await req.json().catch(() => null);
+      const request: ApprovalRequest = {
+        toolName: String(body?.tool_name || "unknown"),
+        input: body?.input && typeof body.input === "object" ? body.input : {},
+      };
+      const decision = await decide(String(body?.run || ""), request);
+      return Response.json(decision);
+    },
+  });
+
+  console.log(`[Permissions] Approval endpoint on port ${approvalServer.port}`);
+}
+
+async function decide(runId: string, request: ApprovalRequest): Promise<ApprovalDecision> {
+  const run = runs.get(runId);
+  let decision: ApprovalDecision;
+
+  if (!run) {
+    decision = { allow: false, reason: "The request is no longer running.", decidedBy: "relay" };
+  } else {
+    try {
+      decision = await run.handler(request);
+    } catch (error) {
+      console.error("[Permissions] Approval error:", error);
+      decision = { allow: false, reason: "Could not ask for approval.", decidedBy: "relay" };
+    }
+  }
+
+  console.log(`[Permissions] ${decision.allow ? "Allowed" : "Denied"} ${describeToolRequest(request)}`);
+  await recordAudit({
+    timestamp: new Date().toISOString(),
+    chat: run?.info.chat ?? "unknown",
+    workspace: run?.info.workspace ?? null,
+    tool: request.toolName,
+    input: request.input,
+    allowed: decision.allow,
+    decidedBy: decision.decidedBy || "unknown",
+    reason: decision.reason,
+  });
+
+  return decision;
+}
+
+/**
+ * Route approval requests of one CLI run to a handler.
+ * Returns the run ID for policyArgs and a function to unregister it.
+ */
+export function registerApprovalRun(
+  handler: ApprovalHandler,
+  info: ApprovalRunInfo
+): { id: string; dispose: () => void } {
+  ensureApprovalServer();
+  const id = randomUUID();
+  runs.set(id, { handler, info });
+  return { id, dispose: () => runs.delete(id) };
+}
+
+// ============================================================
+// PENDING ANSWERS (buttons)
+// ============================================================
+
+const pending = new Map<string, (decision: ApprovalDecision) => void>();
+
+/**
+ * Wait for a button answer to approval `id`. Denies after timeoutMs.
+ * Returns the answer promise and a cancel function (denies immediately).
+ */
+export function waitForAnswer(id: string, timeoutMs = APPROVAL_TIMEOUT_MS) {
+  let settle: (decision: ApprovalDecision) => void = () => {};
+
+  const answer = new Promise<ApprovalDecision>((resolve) => {
+    const timer = setTimeout(
+      () => settle({ allow: false, reason: "No answer in time.", decidedBy: "timeout" }),
+      timeoutMs
+    );
+    settle = (decision) => {
+      clearTimeout(timer);
+      pending.delete(id);
+      resolve(decision);
+    };
+    pending.set(id, settle);
+  });
+
+  return {
+    answer,
+    cancel: (reason: string) => settle({ allow: false, reason, decidedBy: "relay" }),
+  };
+}
+
+/**
+ * Answer a pending approval. Returns false if it already expired.
+ */
+export function answerApproval(id: string, allow: boolean, decidedBy: string): boolean {
+  const settle = pending.get(id);
+  if (!settle) return false;
+  settle({ allow, decidedBy, reason: allow ? undefined : `Denied by ${decidedBy}.` });
+  return true;
+}
+
+export function newApprovalId(): string {
+  return randomBytes(4).toString("hex");
+}
+
+// ============================================================
+// AUDIT LOG
+// ============================================================
+
+interface AuditEntry {
+  timestamp: string;
+  chat: string;
+  workspace: string | null;
+  tool: string;
+  input: Record<string, unknown>;
+  allowed: boolean;
+  decidedBy: string;
+  reason?: string;
+}
+
+async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    await appendFile(AUDIT_FILE, JSON.stringify(entry) + "\n");
+  } catch (error) {
+    console.error("[Permissions] Audit log error:", error);
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Discord Platform Adapter (discord.js)
+ *
+ * Normalizes channel, thread and DM messages (with image, audio and file
+ * attachments) into InboundMessage, and exposes slash commands.
+ */
+
+import {
+  Client,
+  GatewayIntentBits,
+  Partials,
+  ChannelType,
+  ApplicationCommandOptionType,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  type ButtonInteraction,
+  type Channel,
+  type Message,
+  type ChatInputCommandInteraction,
+  type SendableChannels,
+} from "discord.js";
+import type { SessionKey } from "../sessions.ts";
+import { formatForDiscord, DISCORD_MAX_LENGTH } from "../format.ts";
+import type {
+  ActionHandler,
+  Attachment,
+  AttachmentKind,
+  Button,
+  CommandDefinition,
+  InboundMessage,
+  MessageHandler,
+  PlatformAdapter,
+  SendOptions,
+} from "./types.ts";
+import { replyButtons, replyText } from "./types.ts";
+
+export interface DiscordAdapterOptions {
+  token: string;
+}
+
+export function createDiscordAdapter(options: DiscordAdapterOptions): PlatformAdapter {
+  const client = new Client({
+    intents: [
+      GatewayIntentBits.Guilds,
+      GatewayIntentBits.GuildMessages,
+      GatewayIntentBits.MessageContent,
+      GatewayIntentBits.DirectMessages,
+    ],
+    // DM channels aren't cached until first use
+    partials: [Partials.Channel],
+  });
+  const handlers: MessageHandler[] = [];
+  const actionHandlers: ActionHandler[] = [];
+  let commands: CommandDefinition[] = [];
+
+  // ============================================================
+  // INBOUND
+  // ============================================================
+
+  function chatKey(channelId: string, channel: Channel | null): SessionKey {
+    if (channel?.isThread() && channel.parentId) {
+      return { platform: "discord", chatId: channel.parentId, threadId: channelId };
+    }
+    return { platform: "discord", chatId: channelId };
+  }
+
+  function attachmentKind(contentType: string | null): AttachmentKind {
+    if (contentType?.startsWith("image/")) return "image";
+    if (contentType?.startsWith("audio/")) return "audio";
+    return "file";
+  }
+
+  function normalize(msg: Message): InboundMessage {
+    const attachments: Attachment[] = [...msg.attachments.values()]
+      .map((a) => ({
+        kind: attachmentKind(a.contentType),
+        fileName: a.name,
+        mimeType: a.contentType || undefined,
+        size: a.size,
+        download: async () => Buffer.from(await (await fetch(a.url)).arrayBuffer()),
+      }));
+
+    return {
+      platform: "discord",
+      chat: chatKey(msg.channelId, msg.channel),
+      messageId: msg.id,
+      userId: msg.author.id,
+      userName: msg.author.username,
+      isDirect: msg.channel.type === ChannelType.DM,
+      text: msg.content,
+      attachments,
+    };
+  }
+
+  function normalizeInteraction(interaction: ChatInputCommandInteraction | ButtonInteraction): InboundMessage {
+    return {
+      platform: "discord",
+      chat: chatKey(interaction.channelId, interaction.channel),
+      messageId: interaction.id,
+      userId: interaction.user.id,
+      userName: interaction.user.username,
+      isDirect: !interaction.inGuild(),
+      text: "",
+      attachments: [],
+    };
+  }
+
+  client.on("messageCreate", async (msg) => {
+    // Ignore bot messages
+    if (msg.author.bot) return;
+
+    const message = normalize(msg);
+    for (const handler of handlers) {
+      try {
+        await handler(message);
+      } catch (error) {
+        console.error("[Discord] Handler error:", error);
+      }
+    }
+  });
+
+  client.on("interactionCreate", async (interaction) => {
+    // Discord fails interactions not acknowledged within 3 seconds, so
+    // acknowledge first and answer once the handler is done
+    if (interaction.isButton()) {
+      await interaction.deferUpdate().catch(() => {});
+      let notice: string | void = undefined;
+      for (const handler of actionHandlers) {
+        try {
+          notice = (await handler({ action: interaction.customId, message: normalizeInteraction(interaction) })) || notice;
+        } catch (error) {
+          console.error("[Discord] Action error:", error);
+        }
+      }
+      if (notice) await interaction.followUp({ content: notice, ephemeral: true }).catch(() => {});
+      return;
+    }
+
+    if (!interaction.isChatInputCommand()) return;
+
+    const command = commands.find((c) => c.name === interaction.commandName);
+    if (!command) return;
+
+    try {
+      await interaction.deferReply();
+      const args = command.argName ? interaction.options.getString(command.argName) || "" : "";
+      const reply = await command.handler({ message: normalizeInteraction(interaction), args });
+      await interaction.editReply({
+        content: truncate(replyText(reply) || "Done.", DISCORD_MAX_LENGTH),
+        components: components(replyButtons(reply)),
+      });
+    } catch (error) {
+      console.error(`[Discord] /${command.name} error:`, error);
+      if (interaction.deferred) await interaction.editReply(`/${command.name} failed.`).catch(() => {});
+    }
+  });
+
+  client.on("ready", async () => {
+    console.log(`[Discord] Logged in as ${client.user?.tag}`);
+
+    // Register slash commands (global commands can take a while to propagate)
+    try {
+      await client.application?.commands.set(commands.map((c) => ({
+        name: c.name,
+        description: c.description,
+        options: c.argName
+          ? [{
+              name: c.argName,
+              description: c.argName,
+              type: ApplicationCommandOptionType.String as const,
+              required: c.argRequired ?? false,
+            }]
+          : [],
+      })));
+    } catch (error) {
+      console.error("[Discord] Could not register slash commands:", error);
+    }
+  });
+
+  // ============================================================
+  // OUTBOUND
+  // ============================================================
+
+  function truncate(text: string, max: number): string {
+    return text.length > max ? text.substring(0, max - 1) + "…" : text;
+  }
+
+  function components(buttons?: Button[]) {
+    if (!buttons?.length) return [];
+    // Discord allows 5 buttons per row
+    const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+    for (let i = 0; i < buttons.length; i += 5) {
+      rows.push(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          buttons.slice(i, i + 5).map((b) =>
+            new ButtonBuilder().setCustomId(b.action).setLabel(b.label).setStyle(ButtonStyle.Secondary)
+          )
+        )
+      );
+    }
+    return rows;
+  }
+
+  async function channelFor(chat: SessionKey): Promise<SendableChannels> {
+    const channel = await client.channels.fetch(chat.threadId || chat.chatId);
+    if (!channel?.isSendable()) {
+      throw new Error(`Discord channel ${chat.threadId || chat.chatId} is not sendable`);
+    }
+    return channel;
+  }
+
+  async function send(chat: SessionKey, text: string, sendOptions?: SendOptions): Promise<string> {
+    const channel = await channelFor(chat);
+    const sent = await channel.send({
+      content: truncate(text, DISCORD_MAX_LENGTH),
+      components: components(sendOptions?.buttons),
+      ...(sendOptions?.replyTo
+        ? { reply: { messageReference: sendOptions.replyTo, failIfNotExists: false } }
+        : {}),
+    });
+    return sent.id;
+  }
+
+  async function edit(
+    chat: SessionKey,
+    messageId: string,
+    text: string,
+    editOptions?: { buttons?: Button[] }
+  ): Promise<void> {
+    const channel = await channelFor(chat);
+    await channel.messages.edit(messageId, {
+      content: truncate(text, DISCORD_MAX_LENGTH),
+      components: components(editOptions?.buttons),
+    });
+  }
+
+  async function sendFormatted(
+    chat: SessionKey,
+    markdown: string,
+    sendOptions?: SendOptions & { replaceId?: string }
+  ): Promise<void> {
+    const chunks = formatForDiscord(markdown);
+
+    for (const [i, chunk] of chunks.entries()) {
+      try {
+        // Buttons go under the last chunk
+        const buttons = i === chunks.length - 1 ? sendOptions?.buttons : undefined;
+        if (i === 0 && sendOptions?.replaceId) {
+          await edit(chat, sendOptions.replaceId, chunk, { buttons });
+        } else {
+          await send(chat, chunk, { replyTo: i === 0 ? sendOptions?.replyTo : undefined, buttons });
+        }
+      } catch (error) {
+        console.error("[Discord] Send error:", error);
+      }
+    }
+  }
+
+  // ============================================================
+  // ADAPTER
+  // ============================================================
+
+  return {
+    platform: "discord",
+    maxMessageLength: DISCORD_MAX_LENGTH,
+    supportsButtons: true,
+
+    identity: () => client.user?.tag || "discord",
+
+    onMessage(handler) {
+      handlers.push(handler);
+    },
+
+    onAction(handler) {
+      actionHandlers.push(handler);
+    },
+
+    registerCommands(definitions) {
+      commands = [...commands, ...definitions];
+    },
+
+    send,
+    edit,
+    sendFormatted,
+
+    async sendTyping(chat) {
+      try {
+        await (await channelFor(chat)).sendTyping();
+      } catch {}
+    },
+
+    async start() {
+      await client.login(options.token);
+    },
+
+    async stop() {
+      await client.destroy();
+    },
+  };
+}
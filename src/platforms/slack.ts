@@ -0,0 +1,256 @@
+/**
+ * Slack Platform Adapter (Bolt, Socket Mode)
+ *
+ * Normalizes channel, thread and DM messages (with file uploads)
+ * into InboundMessage and exposes slash commands. Socket Mode needs no public
+ * URL: set SLACK_BOT_TOKEN (xoxb-) and SLACK_APP_TOKEN (xapp-).
+ *
+ * Slack has no typing indicator for bots, so sendTyping adds an hourglass
+ * reaction to the latest inbound message; it's removed with the final reply.
+ * Slash commands must also be created in the Slack app configuration.
+ * Buttons aren't rendered on Slack; use the matching slash commands instead.
+ */
+
+import { App, LogLevel } from "@slack/bolt";
+import { sessionKeyToString, type SessionKey } from "../sessions.ts";
+import { formatForSlack, SLACK_MAX_LENGTH } from "../format.ts";
+import type {
+  Attachment,
+  AttachmentKind,
+  CommandDefinition,
+  InboundMessage,
+  MessageHandler,
+  PlatformAdapter,
+  SendOptions,
+} from "./types.ts";
+import { replyText } from "./types.ts";
+
+export interface SlackAdapterOptions {
+  botToken: string;
+  appToken: string;
+}
+
+interface SlackFile {
+  name?: string;
+  mimetype?: string;
+  size?: number;
+  url_private_download?: string;
+}
+
+const TYPING_REACTION = "hourglass_flowing_sand";
+
+export function createSlackAdapter(options: SlackAdapterOptions): PlatformAdapter {
+  const app = new App({
+    token: options.botToken,
+    appToken: options.appToken,
+    socketMode: true,
+    logLevel: LogLevel.WARN,
+  });
+  const handlers: MessageHandler[] = [];
+  let commands: CommandDefinition[] = [];
+  let botIdentity = "slack";
+
+  // Latest inbound message per conversation (for the typing reaction)
+  const lastInbound = new Map<string, { channel: string; ts: string }>();
+  const typing = new Set<string>();
+  const userNames = new Map<string, string>();
+
+  // ============================================================
+  // INBOUND
+  // ============================================================
+
+  function attachmentKind(mimeType?: string): AttachmentKind {
+    if (mimeType?.startsWith("image/")) return "image";
+    if (mimeType?.startsWith("audio/")) return "audio";
+    return "file";
+  }
+
+  function toAttachment(file: SlackFile): Attachment {
+    return {
+      kind: attachmentKind(file.mimetype),
+      fileName: file.name,
+      mimeType: file.mimetype,
+      size: file.size,
+      download: async () => {
+        // Private file URLs need the bot token
+        const response = await fetch(file.url_private_download || "", {
+          headers: { Authorization: `Bearer ${options.botToken}` },
+        });
+        return Buffer.from(await response.arrayBuffer());
+      },
+    };
+  }
+
+  async function userName(userId: string): Promise<string | undefined> {
+    if (userNames.has(userId)) return userNames.get(userId);
+    try {
+      const info = await app.client.users.info({ user: userId });
+      const name = info.user?.profile?.display_name || info.user?.real_name || info.user?.name;
+      if (name) userNames.set(userId, name);
+      return name;
+    } catch {
+      return undefined;
+    }
+  }
+
+  app.message(async ({ message }) => {
+    // Plain user messages and file shares only (skip edits, joins, bots)
+    if (message.subtype && message.subtype !== "file_share") return;
+    if (!("user" in message) || !message.user || ("bot_id" in message && message.bot_id)) return;
+
+    const chat: SessionKey = {
+      platform: "slack",
+      chatId: message.channel,
+      threadId: "thread_ts" in message && message.thread_ts ? message.thread_ts : undefined,
+    };
+    lastInbound.set(sessionKeyToString(chat), { channel: message.channel, ts: message.ts });
+
+    const files = ("files" in message && message.files ? message.files : []) as SlackFile[];
+    const inbound: InboundMessage = {
+      platform: "slack",
+      chat,
+      messageId: message.ts,
+      userId: message.user,
+      userName: await userName(message.user),
+      isDirect: message.channel_type === "im",
+      text: ("text" in message && message.text) || "",
+      attachments: files.map(toAttachment),
+    };
+
+    for (const handler of handlers) {
+      try {
+        await handler(inbound);
+      } catch (error) {
+        console.error("[Slack] Handler error:", error);
+      }
+    }
+  });
+
+  function installCommands(): void {
+    for (const command of commands) {
+      app.command(`/${command.name}`, async ({ command: payload, ack, respond }) => {
+        await ack();
+        try {
+          const message: InboundMessage = {
+            platform: "slack",
+            chat: { platform: "slack", chatId: payload.channel_id },
+            messageId: payload.trigger_id,
+            userId: payload.user_id,
+            userName: payload.user_name,
+            isDirect: payload.channel_name === "directmessage",
+            text: "",
+            attachments: [],
+          };
+          const reply = await command.handler({ message, args: payload.text || "" });
+          await respond({ text: replyText(reply) || "Done.", response_type: "in_channel" });
+        } catch (error) {
+          console.error(`[Slack] /${command.name} error:`, error);
+        }
+      });
+    }
+  }
+
+  // ============================================================
+  // OUTBOUND
+  // ============================================================
+
+  async function clearTyping(chat: SessionKey): Promise<void> {
+    const key = sessionKeyToString(chat);
+    const target = lastInbound.get(key);
+    if (!typing.has(key) || !target) return;
+
+    typing.delete(key);
+    await app.client.reactions.remove({ channel: target.channel, timestamp: target.ts, name: TYPING_REACTION })
+      .catch(() => {});
+  }
+
+  async function send(chat: SessionKey, text: string, _options?: SendOptions): Promise<string> {
+    const sent = await app.client.chat.postMessage({
+      channel: chat.chatId,
+      text: text.substring(0, SLACK_MAX_LENGTH),
+      // Top-level messages are answered in the channel, thread messages in the thread
+      thread_ts: chat.threadId,
+      mrkdwn: false,
+    });
+    return sent.ts || "";
+  }
+
+  async function edit(chat: SessionKey, messageId: string, text: string): Promise<void> {
+    await app.client.chat.update({
+      channel: chat.chatId,
+      ts: messageId,
+      text: text.substring(0, SLACK_MAX_LENGTH),
+    });
+  }
+
+  async function sendFormatted(
+    chat: SessionKey,
+    markdown: string,
+    sendOptions?: SendOptions & { replaceId?: string }
+  ): Promise<void> {
+    await clearTyping(chat);
+    const chunks = formatForSlack(markdown);
+
+    for (const [i, chunk] of chunks.entries()) {
+      try {
+        if (i === 0 && sendOptions?.replaceId) {
+          await app.client.chat.update({ channel: chat.chatId, ts: sendOptions.replaceId, text: chunk });
+        } else {
+          await app.client.chat.postMessage({ channel: chat.chatId, text: chunk, thread_ts: chat.threadId });
+        }
+      } catch (error) {
+        console.error("[Slack] Send error:", error);
+      }
+    }
+  }
+
+  // ============================================================
+  // ADAPTER
+  // ============================================================
+
+  return {
+    platform: "slack",
+    maxMessageLength: SLACK_MAX_LENGTH,
+    supportsButtons: false,
+
+    identity: () => botIdentity,
+
+    onMessage(handler) {
+      handlers.push(handler);
+    },
+
+    // Buttons aren't sent on Slack, so no actions arrive
+    onAction() {},
+
+    registerCommands(definitions) {
+      commands = [...commands, ...definitions];
+    },
+
+    send,
+    edit,
+    sendFormatted,
+
+    async sendTyping(chat) {
+      const key = sessionKeyToString(chat);
+      const target = lastInbound.get(key);
+      if (!target || typing.has(key)) return;
+
+      typing.add(key);
+      await app.client.reactions.add({ channel: target.channel, timestamp: target.ts, name: TYPING_REACTION })
+        .catch(() => {});
+    },
+
+    async start() {
+      installCommands();
+      await app.start();
+
+      const auth = await app.client.auth.test().catch(() => null);
+      if (auth?.user) botIdentity = `@${auth.user}`;
+      console.log(`[Slack] Connected as ${botIdentity}`);
+    },
+
+    async stop() {
+      await app.stop();
+    },
+  };
+}
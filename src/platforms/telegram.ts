@@ -0,0 +1,302 @@
+/**
+ * Telegram Platform Adapter (grammY)
+ *
+ * Normalizes text, voice, photo and document messages into InboundMessage
+ * and implements send/edit/typing with HTML formatting and plain-text fallback.
+ *
+ * Albums (media groups) arrive as one update per item; they are collected
+ * for a short window and dispatched as a single message.
+ */
+
+import { Bot, InlineKeyboard, type Context } from "grammy";
+import type { SessionKey } from "../sessions.ts";
+import { formatForTelegram, TELEGRAM_MAX_LENGTH } from "../format.ts";
+import type {
+  ActionHandler,
+  Attachment,
+  Button,
+  CommandDefinition,
+  InboundMessage,
+  MessageHandler,
+  PlatformAdapter,
+  SendOptions,
+} from "./types.ts";
+import { replyButtons, replyText } from "./types.ts";
+
+export interface TelegramAdapterOptions {
+  token: string;
+}
+
+const MEDIA_GROUP_WAIT_MS = 1000;
+
+export function createTelegramAdapter(options: TelegramAdapterOptions): PlatformAdapter {
+  const bot = new Bot(options.token);
+  const handlers: MessageHandler[] = [];
+  const actionHandlers: ActionHandler[] = [];
+  let commands: CommandDefinition[] = [];
+  const mediaGroups = new Map<string, { message: InboundMessage; timer?: ReturnType<typeof setTimeout> }>();
+
+  // ============================================================
+  // INBOUND
+  // ============================================================
+
+  function chatKey(ctx: Context): SessionKey {
+    // ctx.msg also covers the message a pressed inline button belongs to
+    const message = ctx.msg;
+    return {
+      platform: "telegram",
+      chatId: String(ctx.chat?.id ?? ctx.from?.id ?? "unknown"),
+      // Forum topics get their own session
+      threadId: message?.is_topic_message ? String(message.message_thread_id) : undefined,
+    };
+  }
+
+  function fileAttachment(fileId: string, attachment: Omit<Attachment, "download">): Attachment {
+    return {
+      ...attachment,
+      download: async () => {
+        const file = await bot.api.getFile(fileId);
+        const url = `https://api.telegram.org/file/bot${options.token}/${file.file_path}`;
+        return Buffer.from(await (await fetch(url)).arrayBuffer());
+      },
+    };
+  }
+
+  function normalize(ctx: Context, attachments: Attachment[]): InboundMessage {
+    const message = ctx.msg!;
+    return {
+      platform: "telegram",
+      chat: chatKey(ctx),
+      messageId: String(message.message_id),
+      userId: ctx.from?.id.toString() || "unknown",
+      userName: ctx.from?.first_name,
+      isDirect: ctx.chat?.type === "private",
+      text: message.text || message.caption || "",
+      attachments,
+    };
+  }
+
+  async function dispatch(message: InboundMessage): Promise<void> {
+    for (const handler of handlers) {
+      try {
+        await handler(message);
+      } catch (error) {
+        console.error("[Telegram] Handler error:", error);
+      }
+    }
+  }
+
+  /**
+   * Dispatch a message with attachments, merging album items into one message.
+   */
+  function dispatchMedia(ctx: Context, attachments: Attachment[]): Promise<void> | void {
+    const groupId = ctx.message?.media_group_id;
+    if (!groupId) return dispatch(normalize(ctx, attachments));
+
+    const key = `${ctx.chat?.id}:${groupId}`;
+    const entry = mediaGroups.get(key) || { message: normalize(ctx, []) };
+    if (entry.timer) clearTimeout(entry.timer);
+
+    entry.message.attachments.push(...attachments);
+    // Only one album item carries the caption
+    if (!entry.message.text) entry.message.text = ctx.message?.caption || "";
+
+    // Don't await: the remaining album items must be able to arrive
+    entry.timer = setTimeout(() => {
+      mediaGroups.delete(key);
+      console.log(`[Telegram] Album with ${entry.message.attachments.length} items`);
+      dispatch(entry.message);
+    }, MEDIA_GROUP_WAIT_MS);
+    mediaGroups.set(key, entry);
+  }
+
+  function installHandlers(): void {
+    // Commands first so they aren't forwarded to Claude as text
+    for (const command of commands) {
+      bot.command(command.name, async (ctx) => {
+        try {
+          const reply = await command.handler({ message: normalize(ctx, []), args: ctx.match });
+          if (replyText(reply)) await ctx.reply(replyText(reply), keyboard(replyButtons(reply)));
+        } catch (error) {
+          console.error(`[Telegram] /${command.name} error:`, error);
+        }
+      });
+    }
+
+    bot.on("callback_query:data", async (ctx) => {
+      let notice: string | void = undefined;
+      for (const handler of actionHandlers) {
+        try {
+          const message = { ...normalize(ctx, []), text: "" };
+          notice = (await handler({ action: ctx.callbackQuery.data, message })) || notice;
+        } catch (error) {
+          console.error("[Telegram] Action error:", error);
+        }
+      }
+      await ctx.answerCallbackQuery(notice ? { text: notice } : undefined).catch(() => {});
+    });
+
+    bot.on("message:text", (ctx) => dispatch(normalize(ctx, [])));
+
+    bot.on("message:voice", (ctx) => {
+      const voice = ctx.message.voice;
+      console.log(`[Telegram] Voice: ${voice.duration}s`);
+      return dispatch(normalize(ctx, [
+        fileAttachment(voice.file_id, { kind: "audio", mimeType: voice.mime_type, size: voice.file_size }),
+      ]));
+    });
+
+    bot.on("message:photo", (ctx) => {
+      console.log("[Telegram] Photo received");
+      const photos = ctx.message.photo;
+      const photo = photos[photos.length - 1];
+      return dispatchMedia(ctx, [
+        fileAttachment(photo.file_id, { kind: "image", mimeType: "image/jpeg", size: photo.file_size }),
+      ]);
+    });
+
+    bot.on("message:document", (ctx) => {
+      const document = ctx.message.document;
+      console.log(`[Telegram] Document: ${document.file_name} (${document.mime_type})`);
+      // Images sent as files keep their full resolution
+      const kind = document.mime_type?.startsWith("image/") ? "image" : "file";
+      return dispatchMedia(ctx, [
+        fileAttachment(document.file_id, {
+          kind,
+          fileName: document.file_name,
+          mimeType: document.mime_type,
+          size: document.file_size,
+        }),
+      ]);
+    });
+  }
+
+  // ============================================================
+  // OUTBOUND
+  // ============================================================
+
+  function threadOptions(chat: SessionKey) {
+    return chat.threadId ? { message_thread_id: Number(chat.threadId) } : {};
+  }
+
+  function keyboard(buttons?: Button[]) {
+    if (!buttons?.length) return {};
+    const markup = new InlineKeyboard();
+    for (const button of buttons) markup.text(button.label, button.action);
+    return { reply_markup: markup };
+  }
+
+  function isNotModified(error: any): boolean {
+    return String(error?.description || "").includes("message is not modified");
+  }
+
+  async function send(chat: SessionKey, text: string, sendOptions?: SendOptions): Promise<string> {
+    const sent = await bot.api.sendMessage(chat.chatId, text, {
+      ...threadOptions(chat),
+      ...keyboard(sendOptions?.buttons),
+      ...(sendOptions?.replyTo
+        ? { reply_parameters: { message_id: Number(sendOptions.replyTo), allow_sending_without_reply: true } }
+        : {}),
+    });
+    return String(sent.message_id);
+  }
+
+  async function edit(
+    chat: SessionKey,
+    messageId: string,
+    text: string,
+    editOptions?: { buttons?: Button[] }
+  ): Promise<void> {
+    try {
+      // Without reply_markup Telegram drops the inline keyboard
+      await bot.api.editMessageText(chat.chatId, Number(messageId), text, keyboard(editOptions?.buttons));
+    } catch (error) {
+      // Telegram rejects edits that don't change the text
+      if (!isNotModified(error)) throw error;
+    }
+  }
+
+  async function sendFormatted(
+    chat: SessionKey,
+    markdown: string,
+    sendOptions?: SendOptions & { replaceId?: string }
+  ): Promise<void> {
+    const chunks = formatForTelegram(markdown);
+
+    for (const [i, chunk] of chunks.entries()) {
+      const replace = i === 0 && sendOptions?.replaceId;
+      // Buttons go under the last chunk
+      const markup = i === chunks.length - 1 ? keyboard(sendOptions?.buttons) : {};
+      const deliver = (text: string, parse_mode?: "HTML") =>
+        replace
+          ? bot.api.editMessageText(chat.chatId, Number(sendOptions!.replaceId), text, { parse_mode, ...markup })
+          : bot.api.sendMessage(chat.chatId, text, { ...threadOptions(chat), parse_mode, ...markup });
+
+      try {
+        await deliver(chunk.html, "HTML");
+      } catch (error: any) {
+        if (isNotModified(error)) continue;
+
+        // Fall back to plain text if Telegram rejects the entities
+        console.warn(`[Telegram] Formatted send failed, retrying as plain text: ${error?.description || error}`);
+        try {
+          await deliver(chunk.plain);
+        } catch (plainError) {
+          if (isNotModified(plainError)) continue;
+          console.error("[Telegram] Send error:", plainError);
+          await send(chat, chunk.plain.substring(0, TELEGRAM_MAX_LENGTH)).catch(() => {});
+        }
+      }
+    }
+  }
+
+  // ============================================================
+  // ADAPTER
+  // ============================================================
+
+  return {
+    platform: "telegram",
+    maxMessageLength: TELEGRAM_MAX_LENGTH,
+    supportsButtons: true,
+
+    identity: () => (bot.isInited() ? `@${bot.botInfo.username}` : "telegram"),
+
+    onMessage(handler) {
+      handlers.push(handler);
+    },
+
+    onAction(handler) {
+      actionHandlers.push(handler);
+    },
+
+    registerCommands(definitions) {
+      commands = [...commands, ...definitions];
+    },
+
+    send,
+    edit,
+    sendFormatted,
+
+    async sendTyping(chat) {
+      await bot.api.sendChatAction(chat.chatId, "typing", threadOptions(chat)).catch(() => {});
+    },
+
+    async start() {
+      installHandlers();
+      await bot.init();
+
+      await bot.api.setMyCommands(
+        commands.map((c) => ({ command: c.name, description: c.description }))
+      ).catch((error) => console.error("[Telegram] Could not set commands:", error));
+
+      // bot.start() resolves only when the bot stops, so don't await it
+      bot.start({
+        onStart: () => console.log("[Telegram] Bot is running!"),
+      });
+    },
+
+    async stop() {
+      await bot.stop();
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Platform Adapter Types
+ *
+ * Every chat platform (Telegram, Discord, ...) implements PlatformAdapter and
+ * hands the relay normalized InboundMessage objects, so message processing,
+ * authorization, rate limiting and replies are written once.
+ */
+
+import type { Platform, SessionKey } from "../sessions.ts";
+
+// ============================================================
+// INBOUND
+// ============================================================
+
+export type AttachmentKind = "image" | "audio" | "file";
+
+export interface Attachment {
+  kind: AttachmentKind;
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  /** Fetch the attachment contents from the platform */
+  download(): Promise<Buffer>;
+}
+
+export interface InboundMessage {
+  platform: Platform;
+  /** Conversation the message belongs to (also the session key) */
+  chat: SessionKey;
+  messageId: string;
+  userId: string;
+  userName?: string;
+  /** True for DMs / private chats */
+  isDirect: boolean;
+  /** Message text or attachment caption */
+  text: string;
+  attachments: Attachment[];
+}
+
+// ============================================================
+// COMMANDS
+// ============================================================
+
+export interface CommandContext {
+  message: InboundMessage;
+  /** Text after the command name (Telegram) or the command option (Discord) */
+  args: string;
+}
+
+/** Command reply: plain text, or text with buttons under it */
+export type CommandReply = string | { text: string; buttons?: Button[] };
+
+export interface CommandDefinition {
+  name: string;
+  description: string;
+  /** Name of the single free-text argument, if the command takes one */
+  argName?: string;
+  argRequired?: boolean;
+  handler(ctx: CommandContext): Promise<CommandReply>;
+}
+
+export function replyText(reply: CommandReply): string {
+  return typeof reply === "string" ? reply : reply.text;
+}
+
+export function replyButtons(reply: CommandReply): Button[] | undefined {
+  return typeof reply === "string" ? undefined : reply.buttons;
+}
+
+// ============================================================
+// BUTTONS
+// ============================================================
+
+/**
+ * Inline button (Telegram inline keyboard / Discord button).
+ * action is passed back to action handlers when the button is pressed.
+ */
+export interface Button {
+  label: string;
+  action: string;
+}
+
+export interface ActionContext {
+  action: string;
+  /** Where the button was pressed and by whom (text is empty) */
+  message: InboundMessage;
+}
+
+/** Returns an optional short notice shown to whoever pressed the button */
+export type ActionHandler = (ctx: ActionContext) => Promise<string | void>;
+
+// ============================================================
+// ADAPTER
+// ============================================================
+
+export type MessageHandler = (message: InboundMessage) => Promise<void>;
+
+export interface SendOptions {
+  /** Message ID to reply to */
+  replyTo?: string;
+  /** Buttons under the message (ignored by platforms without button support) */
+  buttons?: Button[];
+}
+
+export interface PlatformAdapter {
+  readonly platform: Platform;
+  readonly maxMessageLength: number;
+  /** Whether buttons passed in SendOptions are shown */
+  readonly supportsButtons: boolean;
+
+  /** Bot identity (username/tag) once started */
+  identity(): string;
+
+  onMessage(handler: MessageHandler): void;
+  onAction(handler: ActionHandler): void;
+  /** Register chat commands; call before start() */
+  registerCommands(commands: CommandDefinition[]): void;
+
+  /** Send plain text. Returns the sent message ID. */
+  send(chat: SessionKey, text: string, options?: SendOptions): Promise<string>;
+  /** Replace the text of a sent message (plain text). Buttons not passed again are removed. */
+  edit(chat: SessionKey, messageId: string, text: string, options?: Pick<SendOptions, "buttons">): Promise<void>;
+  /**
+   * Send Markdown converted for the platform and split to fit its limits.
+   * If replaceId is given, the first chunk replaces that message (and its buttons).
+   */
+  sendFormatted(chat: SessionKey, markdown: string, options?: SendOptions & { replaceId?: string }): Promise<void>;
+  sendTyping(chat: SessionKey): Promise<void>;
+
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
@@ -0,0 +1,49 @@
+/**
+ * Child Process Supervision
+ *
+ * Tracks every process the relay spawns so none are leaked: hung processes
+ * are stopped with SIGTERM then SIGKILL, and everything still running is
+ * reaped when the relay shuts down.
+ */
+
+import type { Subprocess } from "bun";
+
+const KILL_GRACE_MS = 5000;
+
+const children = new Set<Subprocess>();
+
+/**
+ * Register a spawned process; it is forgotten once it exits.
+ */
+export function trackProcess<T extends Subprocess>(proc: T): T {
+  children.add(proc);
+  proc.exited.finally(() => children.delete(proc));
+  return proc;
+}
+
+/**
+ * Ask a process to exit (SIGTERM), then force it (SIGKILL) after a grace period.
+ * Resolves once the process has exited.
+ */
+export async function terminateProcess(proc: Subprocess, graceMs = KILL_GRACE_MS): Promise<void> {
+  if (proc.exitCode !== null || proc.signalCode !== null) return;
+
+  proc.kill("SIGTERM");
+  const timer = setTimeout(() => {
+    console.warn(`[Processes] PID ${proc.pid} ignored SIGTERM, sending SIGKILL`);
+    proc.kill("SIGKILL");
+  }, graceMs);
+
+  await proc.exited;
+  clearTimeout(timer);
+}
+
+/**
+ * Terminate every tracked process (used on relay shutdown).
+ */
+export async function reapAllProcesses(): Promise<void> {
+  if (!children.size) return;
+
+  console.log(`[Processes] Stopping ${children.size} child process(es)...`);
+  await Promise.all([...children].map((proc) => terminateProcess(proc, 2000)));
+}
@@ -0,0 +1,159 @@
+/**
+ * Message Queue
+ *
+ * Serializes work per conversation and caps how many Claude CLI processes
+ * run at once across all conversations.
+ *
+ * - Messages for a conversation are handled one job at a time, so two
+ *   `claude --resume` processes never fight over the same session.
+ * - Messages that arrive within the coalesce window, or while a job is
+ *   running, are merged into the next job as one prompt.
+ * - A global semaphore limits concurrently spawned CLI processes; callers
+ *   waiting for a slot learn their position.
+ */
+
+// ============================================================
+// CONVERSATION QUEUE
+// ============================================================
+
+export interface ChatQueueOptions<T> {
+  /** Wait this long after a message for more to arrive before starting */
+  coalesceMs: number;
+  /** Max messages waiting per conversation; further messages are rejected */
+  maxPending: number;
+  process(key: string, items: T[]): Promise<void>;
+}
+
+export type EnqueueResult =
+  | { status: "scheduled" }
+  | { status: "queued"; waiting: number }
+  | { status: "rejected" };
+
+interface ChatState<T> {
+  pending: T[];
+  running: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export function createChatQueue<T>(options: ChatQueueOptions<T>) {
+  const chats = new Map<string, ChatState<T>>();
+
+  function state(key: string): ChatState<T> {
+    let chat = chats.get(key);
+    if (!chat) {
+      chat = { pending: [], running: false, timer: null };
+      chats.set(key, chat);
+    }
+    return chat;
+  }
+
+  function schedule(key: string, chat: ChatState<T>): void {
+    if (chat.timer) clearTimeout(chat.timer);
+    chat.timer = setTimeout(() => run(key, chat), options.coalesceMs);
+  }
+
+  async function run(key: string, chat: ChatState<T>): Promise<void> {
+    chat.timer = null;
+    if (chat.running || !chat.pending.length) return;
+
+    const items = chat.pending.splice(0);
+    chat.running = true;
+    try {
+      await options.process(key, items);
+    } catch (error) {
+      console.error(`[Queue] Job error (${key}):`, error);
+    } finally {
+      chat.running = false;
+    }
+
+    // Messages that arrived meanwhile run next, as one job
+    if (chat.pending.length) {
+      run(key, chat);
+    } else if (!chat.timer) {
+      chats.delete(key);
+    }
+  }
+
+  return {
+    enqueue(key: string, item: T): EnqueueResult {
+      const chat = state(key);
+      if (chat.pending.length >= options.maxPending) return { status: "rejected" };
+
+      chat.pending.push(item);
+      if (chat.running) return { status: "queued", waiting: chat.pending.length };
+
+      schedule(key, chat);
+      return { status: "scheduled" };
+    },
+
+    /** Drop messages waiting for a conversation. Returns the dropped items. */
+    clear(key: string): T[] {
+      const chat = chats.get(key);
+      if (!chat) return [];
+
+      const dropped = chat.pending;
+      chat.pending = [];
+      if (chat.timer) clearTimeout(chat.timer);
+      chat.timer = null;
+      if (!chat.running) chats.delete(key);
+      return dropped;
+    },
+
+    isBusy(key: string): boolean {
+      return chats.get(key)?.running ?? false;
+    },
+  };
+}
+
+// ============================================================
+// CONCURRENCY CAP
+// ============================================================
+
+export function createSemaphore(max: number) {
+  let active = 0;
+  const waiters: Array<{ resume: () => void; onWaiting?: (position: number) => void }> = [];
+
+  function release(): void {
+    const next = waiters.shift();
+    if (next) {
+      next.resume();
+      // Everyone still waiting moved up one place
+      waiters.forEach((waiter, i) => waiter.onWaiting?.(i + 1));
+    } else {
+      active--;
+    }
+  }
+
+  return {
+    /**
+     * Wait for a free slot. If the caller has to wait, onWaiting is called
+     * with the 1-based position in line, again whenever it moves up, and
+     * with 0 once the slot is theirs. Returns the release function.
+     */
+    async acquire(onWaiting?: (position: number) => void): Promise<() => void> {
+      if (active < max) {
+        active++;
+      } else {
+        const slot = new Promise<void>((resume) => waiters.push({ resume, onWaiting }));
+        onWaiting?.(waiters.length);
+        await slot;
+        onWaiting?.(0);
+      }
+
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        release();
+      };
+    },
+
+    get active() {
+      return active;
+    },
+
+    get waiting() {
+      return waiters.length;
+    },
+  };
+}
@@ -1,36 +1,148 @@
 /**
  * Discord + Telegram Relay
  * 
- * Connects both Discord and Telegram to Claude Code CLI.
- * Uses Diego's MCP for memory instead of Supabase.
+ * Connects Discord, Telegram and Slack to Claude Code CLI.
+ * Memory is kept in an MCP ledger, Supabase or a local SQLite file.
  * 
  * Run: bun run src/relay.ts
  * 
  * Environment variables required:
  * - TELEGRAM_BOT_TOKEN (optional)
- * - TELEGRAM_USER_ID (optional)
+ * - TELEGRAM_USER_ID (optional, owner)
+ * - OWNER_IDS (comma-separated platform:userId)
  * - DISCORD_BOT_TOKEN (optional)
  * - DISCORD_CHANNEL_IDS (comma-separated)
- * - MCP_URL
- * - MCP_API_KEY
+ * - SLACK_BOT_TOKEN, SLACK_APP_TOKEN (optional, Socket Mode)
+ * - SLACK_CHANNEL_IDS (comma-separated)
+ * - RELAY_API_PORT, RELAY_API_TOKEN (optional local HTTP/WebSocket API)
+ * - MEMORY_BACKEND (mcp, supabase or sqlite) with MCP_URL/MCP_API_KEY or SUPABASE_URL/SUPABASE_ANON_KEY
+ * - SCHEDULE_FILE (optional, default config/schedule.json: scheduled jobs)
  * - CLAUDE_PATH (default: "claude")
- * - PROJECT_DIR
+ * - PROJECT_DIR (or config/workspaces.json for several projects)
  */
 
-import { Bot as TelegramBot } from "grammy";
-import { Client as DiscordClient, GatewayIntentBits, TextChannel, ChannelType } from "discord.js";
-import { spawn } from "bun";
+import { spawn, type Subprocess } from "bun";
 import { writeFile, mkdir, readFile, unlink } from "fs/promises";
 import { join, dirname } from "path";
-import { transcribe } from "./transcribe.ts";
+import { resolveAttachments, cleanupUploads } from "./attachments.ts";
+import { createChatQueue, createSemaphore } from "./queue.ts";
+import { trackProcess, terminateProcess, reapAllProcesses } from "./processes.ts";
+import { readClaudeStream, createThrottledEditor } from "./streaming.ts";
+import {
+  recordUsage,
+  getUsageReport,
+  getUserSpendToday,
+  budgetExceeded,
+  takeBudgetWarnings,
+  parseUrgent,
+  describeBudgets,
+  formatTotals,
+  formatUsd,
+  type UsageStatus,
+} from "./usage.ts";
+import { createTelegramAdapter } from "./platforms/telegram.ts";
+import { createDiscordAdapter } from "./platforms/discord.ts";
+import { createSlackAdapter } from "./platforms/slack.ts";
+import { chooseModel, describeModelDefaults, normalizeModel, parseModelPrefix, MODEL_ALIASES } from "./models.ts";
+import { resolveWorkspace, loadWorkspaces, workspaceDirExists, type Workspace } from "./workspaces.ts";
+import {
+  resolvePolicy,
+  policyArgs,
+  registerApprovalRun,
+  waitForAnswer,
+  answerApproval,
+  newApprovalId,
+  describeToolRequest,
+  APPROVAL_ACTION_PREFIX,
+  APPROVAL_TIMEOUT_MS,
+  type ApprovalHandler,
+  type ApprovalDecision,
+  type ApprovalRequest,
+} from "./permissions.ts";
+import {
+  getRole,
+  hasRole,
+  parseRole,
+  userKey,
+  isOpenAccess,
+  grantRole,
+  revokeUser,
+  listUsers,
+  createInvite,
+  redeemInvite,
+  roleLimits,
+  canUseWorkspace,
+  ROLES,
+  type Role,
+} from "./access.ts";
+import { startApiServer, type ApiRequest } from "./api.ts";
+import { formatDeadline } from "./deadlines.ts";
+import {
+  getDueReminders,
+  markReminderSent,
+  snoozeReminder,
+  describeReminder,
+  REMINDER_ACTION_PREFIX,
+  REMINDER_CHECK_MS,
+} from "./reminders.ts";
+import {
+  loadJobs,
+  findJob,
+  getDueJobs,
+  nextJobRun,
+  recordJobRun,
+  setJobPaused,
+  setJobSchedule,
+  JOB_CHECK_MS,
+  type Job,
+  type JobStatus,
+} from "./scheduler.ts";
+import {
+  recordInboundMessage,
+  recordCheckin,
+  checkinBlocked,
+  buildCheckinPrompt,
+  parseCheckinDecision,
+} from "./checkins.ts";
+import type { Button, CommandDefinition, CommandReply, InboundMessage, PlatformAdapter } from "./platforms/types.ts";
+import { replyButtons, replyText } from "./platforms/types.ts";
+import {
+  loadSession,
+  recordSessionRun,
+  clearSessionId,
+  setSessionModel,
+  getChatWorkspace,
+  setChatWorkspace,
+  startNewSession,
+  listSessions,
+  resumeSession,
+  sessionKeyToString,
+  parseSessionKey,
+  type SessionKey,
+} from "./sessions.ts";
 import {
   processMemoryIntents,
+  stripMemoryTags,
   getMemoryContext,
   getRelevantContext,
-  testMcpConnection,
+  saveConversation,
+  initMemory,
+  memoryBackend,
+  listMemory,
+  searchMemory,
+  completeGoal,
+  editMemory,
+  forgetMemory,
+  canChangeGoal,
+  shortId,
+  listScheduledGoals,
+  itemChat,
+  type MemoryItem,
+  type MemoryScope,
 } from "./memory.ts";
 
 const PROJECT_ROOT = dirname(dirname(import.meta.path));
+const STARTED_AT = Date.now();
 
 // ============================================================
 // CONFIGURATION
@@ -38,50 +150,45 @@ const PROJECT_ROOT = dirname(dirname(import.meta.path));
 
 // Telegram (optional)
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || "";
-const TELEGRAM_USER_ID = process.env.TELEGRAM_USER_ID || "";
 
 // Discord (optional)
 const DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN || "";
 const DISCORD_CHANNEL_IDS = (process.env.DISCORD_CHANNEL_IDS || "").split(",").filter(Boolean);
 
+// Slack (optional, Socket Mode)
+const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN || "";
+const SLACK_APP_TOKEN = process.env.SLACK_APP_TOKEN || "";
+const SLACK_CHANNEL_IDS = (process.env.SLACK_CHANNEL_IDS || "").split(",").filter(Boolean);
+
+// Role for anyone in an allowed Discord/Slack channel who isn't a listed user (empty = none)
+const CHANNEL_DEFAULT_ROLE = parseRole(process.env.CHANNEL_DEFAULT_ROLE || "");
+
+// Local HTTP/WebSocket API (optional)
+const RELAY_API_PORT = Number(process.env.RELAY_API_PORT || 0);
+const RELAY_API_HOST = process.env.RELAY_API_HOST || "127.0.0.1";
+const RELAY_API_TOKEN = process.env.RELAY_API_TOKEN || "";
+
 // Claude
 const CLAUDE_PATH = process.env.CLAUDE_PATH || "claude";
 const PROJECT_DIR = process.env.PROJECT_DIR || "";
+// "Still working" notice after the soft timeout, process stopped at the hard timeout (0 = off)
+const CLAUDE_SOFT_TIMEOUT_MS = Number(process.env.CLAUDE_SOFT_TIMEOUT_SEC ?? 120) * 1000;
+const CLAUDE_HARD_TIMEOUT_MS = Number(process.env.CLAUDE_HARD_TIMEOUT_SEC ?? 1200) * 1000;
+
+// Queue: coalesce window, per-chat backlog and max concurrent Claude processes
+const QUEUE_COALESCE_MS = Number(process.env.QUEUE_COALESCE_MS || 1000);
+const MAX_PENDING_PER_CHAT = Number(process.env.MAX_PENDING_PER_CHAT || 10);
+const MAX_CONCURRENT_CLAUDE = Number(process.env.MAX_CONCURRENT_CLAUDE || 2);
 
 // Relay working directory
 const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
 const TEMP_DIR = join(RELAY_DIR, "temp");
 const UPLOADS_DIR = join(RELAY_DIR, "uploads");
-const SESSION_FILE = join(RELAY_DIR, "session.json");
 
 // User config
 const USER_NAME = process.env.USER_NAME || "User";
 const USER_TIMEZONE = process.env.USER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
 
-// ============================================================
-// SESSION MANAGEMENT
-// ============================================================
-
-interface SessionState {
-  sessionId: string | null;
-  lastActivity: string;
-}
-
-async function loadSession(): Promise<SessionState> {
-  try {
-    const content = await readFile(SESSION_FILE, "utf-8");
-    return JSON.parse(content);
-  } catch {
-    return { sessionId: null, lastActivity: new Date().toISOString() };
-  }
-}
-
-async function saveSession(state: SessionState): Promise<void> {
-  await writeFile(SESSION_FILE, JSON.stringify(state, null, 2));
-}
-
-let session = await loadSession();
-
 // ============================================================
 // LOCK FILE
 // ============================================================
@@ -150,31 +257,17 @@ async function releaseLock(): Promise<void> {
 process.on("exit", () => {
   try { require("fs").unlinkSync(LOCK_FILE); } catch {}
 });
-process.on("SIGINT", async () => { await releaseLock(); process.exit(0); });
-process.on("SIGTERM", async () => { await releaseLock(); process.exit(0); });
-
-// ============================================================
-// RATE LIMITING
-// ============================================================
+process.on("SIGINT", async () => { await reapAllProcesses(); await releaseLock(); process.exit(0); });
+process.on("SIGTERM", async () => { await reapAllProcesses(); await releaseLock(); process.exit(0); });
 
-const RATE_LIMIT_WINDOW_MS = 2000; // 2 seconds
-const userLastMessage = new Map<string, number>();
-
-function checkRateLimit(userId: string): boolean {
-  const now = Date.now();
-  const last = userLastMessage.get(userId) || 0;
-  
-  if (now - last < RATE_LIMIT_WINDOW_MS) {
-    return false;
-  }
-  
-  userLastMessage.set(userId, now);
-  return true;
+// Verify at least one platform is configured
+if (!TELEGRAM_BOT_TOKEN && !DISCORD_BOT_TOKEN && !SLACK_BOT_TOKEN && !RELAY_API_PORT) {
+  console.error("No platform configured! Set TELEGRAM_BOT_TOKEN, DISCORD_BOT_TOKEN, SLACK_BOT_TOKEN and/or RELAY_API_PORT");
+  process.exit(1);
 }
 
-// Verify at least one platform is configured
-if (!TELEGRAM_BOT_TOKEN && !DISCORD_BOT_TOKEN) {
-  console.error("No platform configured! Set TELEGRAM_BOT_TOKEN and/or DISCORD_BOT_TOKEN");
+if (RELAY_API_PORT && !RELAY_API_TOKEN) {
+  console.error("RELAY_API_TOKEN is required when RELAY_API_PORT is set");
   process.exit(1);
 }
 
@@ -188,101 +281,226 @@ if (!(await acquireLock())) {
   process.exit(1);
 }
 
-// Test MCP connection
-console.log("[Relay] Testing MCP connection...");
-const mcpReady = await testMcpConnection();
-if (!mcpReady) {
-  console.warn("[Relay] Warning: MCP connection failed. Memory features may not work.");
+// Connect the memory backend
+console.log(`[Relay] Starting ${memoryBackend()} memory...`);
+const memoryReady = await initMemory();
+if (!memoryReady) {
+  console.warn("[Relay] Warning: memory backend unavailable. Memory features may not work.");
 }
 
 // ============================================================
-// TELEGRAM BOT
+// PLATFORMS
 // ============================================================
 
-let telegramBot: TelegramBot | null = null;
+const adapters: PlatformAdapter[] = [];
 
 if (TELEGRAM_BOT_TOKEN) {
   console.log("[Relay] Initializing Telegram bot...");
-  telegramBot = new TelegramBot(TELEGRAM_BOT_TOKEN);
-  
-  // Security: Only respond to authorized user
-  telegramBot.use(async (ctx, next) => {
-    const userId = ctx.from?.id.toString();
-    if (TELEGRAM_USER_ID && userId !== TELEGRAM_USER_ID) {
-      console.log(`[Telegram] Unauthorized: ${userId}`);
-      await ctx.reply("This bot is private.");
-      return;
-    }
-    await next();
-  });
+  adapters.push(createTelegramAdapter({ token: TELEGRAM_BOT_TOKEN }));
+}
+
+if (DISCORD_BOT_TOKEN) {
+  console.log("[Relay] Initializing Discord bot...");
+  adapters.push(createDiscordAdapter({ token: DISCORD_BOT_TOKEN }));
+}
+
+if (SLACK_BOT_TOKEN) {
+  if (!SLACK_APP_TOKEN) {
+    console.error("SLACK_APP_TOKEN is required for Slack (Socket Mode)");
+    process.exit(1);
+  }
+  console.log("[Relay] Initializing Slack bot...");
+  adapters.push(createSlackAdapter({ botToken: SLACK_BOT_TOKEN, appToken: SLACK_APP_TOKEN }));
 }
 
 // ============================================================
-// DISCORD BOT
+// AUTHORIZATION
 // ============================================================
 
-let discordClient: DiscordClient | null = null;
+/**
+ * Where the bot listens: Discord / Slack only in allowed channels (and their
+ * threads) or DMs; Telegram chats and the API everywhere.
+ */
+function isListening(message: InboundMessage): boolean {
+  switch (message.platform) {
+    case "discord":
+      return message.isDirect || DISCORD_CHANNEL_IDS.includes(message.chat.chatId);
+    case "slack":
+      return message.isDirect || SLACK_CHANNEL_IDS.includes(message.chat.chatId);
+    default:
+      return true;
+  }
+}
 
-if (DISCORD_BOT_TOKEN) {
-  console.log("[Relay] Initializing Discord bot...");
-  discordClient = new DiscordClient({
-    intents: [
-      GatewayIntentBits.Guilds,
-      GatewayIntentBits.GuildMessages,
-      GatewayIntentBits.MessageContent,
-      GatewayIntentBits.DirectMessages,
-    ],
-  });
-  
-  discordClient.on("ready", () => {
-    console.log(`[Discord] Logged in as ${discordClient?.user?.tag}`);
-  });
-  
-  discordClient.on("messageCreate", async (msg) => {
-    // Ignore bot messages
-    if (msg.author.bot) return;
-    
-    // Rate limiting
-    const userId = msg.author.id;
-    if (!checkRateLimit(userId)) {
-      console.log(`[Discord] Rate limited: ${userId}`);
-      return;
-    }
-    
-    // Check if in allowed channel or DM
-    const isAllowedChannel = DISCORD_CHANNEL_IDS.includes(msg.channelId);
-    const isDM = msg.channel.type === ChannelType.DM;
-    
-    if (!isAllowedChannel && !isDM) {
-      console.log(`[Discord] Message from unauthorized channel: ${msg.channelId}`);
-      return;
-    }
-    
-    console.log(`[Discord] Message: ${msg.content.substring(0, 50)}...`);
-    await msg.channel.sendTyping();
-    
-    const response = await processMessage(msg.content, msg.author.username);
-    
-    // Send response
-    await msg.reply(response);
-  });
+/**
+ * Role of the sender, or null if they may not use the bot.
+ * API requests are already authenticated by the server's bearer token.
+ */
+async function roleFor(message: InboundMessage): Promise<Role | null> {
+  if (message.platform === "api") return "owner";
+  if (!isListening(message)) return null;
+
+  // Nobody configured yet: open, as before access control. Only direct
+  // messages get owner rights; anyone in a channel could claim them otherwise
+  if (await isOpenAccess()) return message.isDirect ? "owner" : "member";
+
+  const role = await getRole(userKey(message.platform, message.userId));
+  if (role) return role;
+
+  if (!message.isDirect && message.platform !== "telegram" && CHANNEL_DEFAULT_ROLE) return CHANNEL_DEFAULT_ROLE;
+  return null;
+}
+
+const PRIVATE_NOTICE = "This bot is private. Have an invite code? Send /join <code>.";
+
+// ============================================================
+// WORKSPACES
+// ============================================================
+
+/**
+ * The chat's selected workspace (or the registry default).
+ * Null when no workspaces are configured; Claude then works in PROJECT_DIR.
+ */
+async function activeWorkspace(chat: SessionKey): Promise<Workspace | null> {
+  return resolveWorkspace(await getChatWorkspace(chat));
+}
+
+/**
+ * Session key scoped to the chat's active workspace, so every workspace
+ * keeps its own Claude session.
+ */
+async function workspaceSessionKey(chat: SessionKey): Promise<SessionKey> {
+  const workspace = await activeWorkspace(chat);
+  return workspace ? { ...chat, workspace: workspace.name } : chat;
+}
+
+// ============================================================
+// RUNNING PROCESSES
+// ============================================================
+
+interface RunningClaude {
+  proc: Subprocess;
+  /** What the user asked (for "what was interrupted") */
+  label: string;
+  startedAt: number;
+  stopped: boolean;
+  timedOut: boolean;
+}
+
+// Claude processes by conversation
+const runningClaude = new Map<string, RunningClaude>();
+
+/**
+ * Stop the Claude process (and drop queued messages) for a conversation.
+ * The session ID is kept, so the next message resumes the same conversation.
+ */
+function stopClaude(key: SessionKey): string {
+  const id = sessionKeyToString(key);
+  const droppedItems = chatQueue.clear(id);
+  const running = runningClaude.get(id);
+
+  // Dropped jobs count as run, so they aren't queued again until their next scheduled time
+  for (const item of droppedItems) {
+    if (!("job" in item)) continue;
+    const name = item.job.name;
+    recordJobRun(name, "stopped", "dropped by /stop before it ran").finally(() => runningJobs.delete(name));
+  }
+  for (const item of droppedItems) if ("api" in item) item.api.respond("Stopped.");
+  const dropped = droppedItems.filter((item) => !("job" in item)).length;
+
+  const droppedNote = dropped ? ` Dropped ${dropped} queued message${dropped === 1 ? "" : "s"}.` : "";
+  if (!running) return dropped ? droppedNote.trim() : "Nothing is running.";
+
+  running.stopped = true;
+  const jobRun = activeJobRuns.get(id);
+  if (jobRun) jobRun.stopped = true;
+  terminateProcess(running.proc);
+  console.log(`[Claude] Stopped (${id}) after ${formatDuration(Date.now() - running.startedAt)}`);
+
+  return `Stopped "${truncate(running.label, 60)}" after ${formatDuration(Date.now() - running.startedAt)}.${droppedNote}`;
 }
 
 // ============================================================
 // CORE: Call Claude CLI
 // ============================================================
 
-async function callClaude(
-  prompt: string,
-  options?: { resume?: boolean }
-): Promise<string> {
+interface CallClaudeOptions {
+  resume?: boolean;
+  sessionKey?: SessionKey;
+  /** --model value (null = CLI default) */
+  model?: string | null;
+  /** Working directory and tool policy (default: PROJECT_DIR) */
+  workspace?: Workspace | null;
+  /** Asks the user about tools the policy neither allows nor denies */
+  onApproval?: ApprovalHandler;
+  /** Who asked (platform:userId) and their role, for tool limits and usage */
+  user?: string;
+  role?: Role;
+  onProgress?: (text: string) => void;
+  /** Place in line for a CLI slot while waiting, then 0 when the run starts */
+  onWaiting?: (position: number) => void;
+  /** Short description of the request, shown if it gets stopped */
+  label?: string;
+  softTimeoutMs?: number;
+  hardTimeoutMs?: number;
+  /** Called once when the soft timeout passes */
+  onSoftTimeout?: (elapsedMs: number) => void;
+  /**
+   * Answer only: no tools beyond reading (plan mode), no approvals, and the
+   * chat's session is neither resumed nor replaced. sessionKey still charges
+   * the run to the chat.
+   */
+  answerOnly?: boolean;
+}
+
+async function callClaude(prompt: string, options?: CallClaudeOptions): Promise<string> {
+  const reply = await runClaude(prompt, options);
+  if (reply !== null) return reply;
+
+  // The CLI no longer knows the stored session (deleted, expired, other
+  // machine): forget it and answer in a fresh session instead of failing
+  console.warn("[Claude] Stored session not found, starting a new one");
+  if (options?.sessionKey) await clearSessionId(options.sessionKey);
+
+  return (await runClaude(prompt, { ...options, resume: false })) ?? "Error: Could not start a Claude session";
+}
+
+/**
+ * Run the CLI once. Returns null if --resume failed because the session
+ * does not exist (the caller retries without it).
+ */
+async function runClaude(prompt: string, options?: CallClaudeOptions): Promise<string | null> {
   const args = [CLAUDE_PATH, "-p", prompt];
 
-  if (options?.resume && session.sessionId) {
-    args.push("--resume", session.sessionId);
+  // Each conversation resumes its own Claude session
+  const session = options?.sessionKey ? await loadSession(options.sessionKey) : null;
+
+  const resumeId = options?.resume && !options.answerOnly ? session?.sessionId : null;
+  if (resumeId) {
+    args.push("--resume", resumeId);
+  }
+
+  if (options?.model) {
+    args.push("--model", options.model);
   }
 
-  args.push("--output-format", "text");
+  // Running processes are tracked per chat (not per workspace) for /stop
+  const runKey = options?.sessionKey ? sessionKeyToString({ ...options.sessionKey, workspace: undefined }) : null;
+
+  const workspace = options?.workspace;
+  const projectDir = workspace?.dir || PROJECT_DIR;
+
+  // Allowed/denied tools, and interactive approvals for the rest
+  const limits = options?.role ? await roleLimits(options.role) : undefined;
+  const resolved = await resolvePolicy(runKey ?? "unknown", workspace ?? null, limits);
+  const policy = options?.answerOnly ? { ...resolved, allow: [], mode: "plan", approvals: false } : resolved;
+  const approvalRun = policy.approvals && options?.onApproval
+    ? registerApprovalRun(options.onApproval, { chat: runKey ?? "unknown", workspace: workspace?.name ?? null })
+    : null;
+  args.push(...policyArgs(policy, approvalRun?.id ?? null));
+
+  // stream-json requires --verbose in print mode
+  args.push("--output-format", "stream-json", "--verbose");
 
   console.log(`[Claude] ${prompt.substring(0, 50)}...`);
 
@@ -295,79 +513,608 @@ async function callClaude(
     LC_ALL: process.env.LC_ALL || "",
     TMPDIR: process.env.TMPDIR || "",
     CLAUDE_PATH: CLAUDE_PATH,
-    PROJECT_DIR: PROJECT_DIR,
+    PROJECT_DIR: projectDir,
     USER_NAME: USER_NAME,
     USER_TIMEZONE: USER_TIMEZONE,
   };
+  if (approvalRun) {
+    // Let MCP tool calls wait for the user's answer (ms)
+    safeEnv.MCP_TOOL_TIMEOUT = String(APPROVAL_TIMEOUT_MS + 30000);
+  }
+
+  // Cap concurrent CLI processes across all conversations
+  const release = await claudeSlots.acquire(options?.onWaiting);
+
+  let softTimer: ReturnType<typeof setTimeout> | null = null;
+  let hardTimer: ReturnType<typeof setTimeout> | null = null;
 
   try {
-    const proc = spawn(args, {
+    const proc = trackProcess(spawn(args, {
       stdout: "pipe",
       stderr: "pipe",
-      cwd: PROJECT_DIR || undefined,
+      cwd: projectDir || undefined,
       env: safeEnv,
-    });
+    }));
+
+    const running: RunningClaude = {
+      proc,
+      label: options?.label || prompt,
+      startedAt: Date.now(),
+      stopped: false,
+      timedOut: false,
+    };
+    if (runKey) runningClaude.set(runKey, running);
+
+    const softTimeoutMs = options?.softTimeoutMs ?? CLAUDE_SOFT_TIMEOUT_MS;
+    const hardTimeoutMs = options?.hardTimeoutMs ?? CLAUDE_HARD_TIMEOUT_MS;
 
-    const output = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
+    if (softTimeoutMs > 0 && options?.onSoftTimeout) {
+      softTimer = setTimeout(() => options.onSoftTimeout!(Date.now() - running.startedAt), softTimeoutMs);
+    }
+    if (hardTimeoutMs > 0) {
+      hardTimer = setTimeout(() => {
+        console.warn(`[Claude] Hard timeout (${formatDuration(hardTimeoutMs)}), stopping PID ${proc.pid}`);
+        running.timedOut = true;
+        terminateProcess(proc);
+      }, hardTimeoutMs);
+    }
+
+    const stderrPromise = new Response(proc.stderr).text();
+    const output = await readClaudeStream(proc.stdout, options?.onProgress);
+    const stderr = await stderrPromise;
     const exitCode = await proc.exited;
 
-    if (exitCode !== 0) {
-      console.error("[Claude] Error:", stderr);
-      return `Error: ${stderr || "Claude exited with code " + exitCode}`;
+    const status: UsageStatus = running.timedOut ? "timeout"
+      : running.stopped ? "stopped"
+      : exitCode !== 0 || output.isError ? "error"
+      : "ok";
+    await recordUsage({
+      timestamp: new Date().toISOString(),
+      platform: options?.sessionKey?.platform ?? "unknown",
+      chat: runKey ?? "unknown",
+      sessionId: output.sessionId,
+      model: options?.model ?? null,
+      workspace: workspace?.name ?? null,
+      user: options?.user ?? null,
+      status,
+      durationMs: Date.now() - running.startedAt,
+      costUsd: output.stats?.costUsd ?? 0,
+      inputTokens: output.stats?.inputTokens ?? 0,
+      outputTokens: output.stats?.outputTokens ?? 0,
+      turns: output.stats?.numTurns ?? 0,
+    });
+
+    if (running.stopped || running.timedOut) {
+      // Keep the session so the next message continues where it stopped
+      if (options?.sessionKey && output.sessionId && !options.answerOnly) {
+        await recordSessionRun(options.sessionKey, output.sessionId, {
+          turns: output.stats?.numTurns ?? 0,
+          costUsd: output.stats?.costUsd ?? 0,
+          durationMs: Date.now() - running.startedAt,
+          model: options?.model,
+        });
+      }
+
+      const partial = output.text.trim() ? `\n\nPartial answer:\n\n${output.text.trim()}` : "";
+      if (running.timedOut) {
+        return `Error: Claude took longer than ${formatDuration(hardTimeoutMs)} and was stopped.${partial}`;
+      }
+      return `Stopped.${partial}`;
     }
 
-    // Extract session ID
-    const sessionMatch = output.match(/Session ID: ([a-f0-9-]+)/i);
-    if (sessionMatch) {
-      session.sessionId = sessionMatch[1];
-      session.lastActivity = new Date().toISOString();
-      await saveSession(session);
+    if (exitCode !== 0 || output.isError) {
+      if (resumeId && isSessionNotFound(stderr + "\n" + output.text)) return null;
+
+      console.error("[Claude] Error:", stderr || output.text);
+      return `Error: ${stderr.trim() || output.text || "Claude exited with code " + exitCode}`;
+    }
+
+    // Session ID and totals come from the result event
+    if (output.stats) {
+      const { costUsd, durationMs, numTurns } = output.stats;
+      console.log(`[Claude] Done in ${formatDuration(durationMs)}, ${numTurns} turn(s), $${costUsd.toFixed(4)}`);
+    }
+    if (options?.sessionKey && output.sessionId && !options.answerOnly) {
+      await recordSessionRun(options.sessionKey, output.sessionId, {
+        turns: output.stats?.numTurns ?? 0,
+        costUsd: output.stats?.costUsd ?? 0,
+        durationMs: output.stats?.durationMs ?? Date.now() - running.startedAt,
+        model: options?.model,
+      });
     }
 
-    return output.trim();
+    return output.text.trim();
   } catch (error) {
     console.error("[Claude] Spawn error:", error);
     return "Error: Could not run Claude CLI";
+  } finally {
+    if (softTimer) clearTimeout(softTimer);
+    if (hardTimer) clearTimeout(hardTimer);
+    if (runKey) runningClaude.delete(runKey);
+    approvalRun?.dispose();
+    release();
   }
 }
 
+function isSessionNotFound(output: string): boolean {
+  return /no conversation found|session .*not found/i.test(output);
+}
+
+// ============================================================
+// INBOUND MESSAGES
+// ============================================================
+
+async function handleInbound(adapter: PlatformAdapter, message: InboundMessage): Promise<void> {
+  const tag = platformTag(adapter);
+
+  const role = await roleFor(message);
+  if (!role) {
+    console.log(`${tag} Unauthorized: ${message.userId} in ${message.chat.chatId}`);
+    // Only answer in private chats; stay silent in channels
+    if (message.isDirect) await adapter.send(message.chat, PRIVATE_NOTICE);
+    return;
+  }
+
+  const refusal = await checkRoleLimits(message, role);
+  if (refusal) {
+    await adapter.send(message.chat, refusal, { replyTo: message.messageId });
+    return;
+  }
+
+  // Real activity for check-ins (saved in the background)
+  recordInboundMessage(userKey(message.platform, message.userId));
+
+  // "!urgent" gets through an exhausted budget; "!opus" etc. picks the model once
+  const { urgent, text: afterUrgent } = parseUrgent(message.text);
+  const { model, text } = parseModelPrefix(afterUrgent);
+  message = { ...message, text };
+
+  const exceeded = await budgetExceeded();
+  if (exceeded && !urgent) {
+    console.log(`${tag} Budget exceeded, refusing: ${message.chat.chatId}`);
+    await adapter.send(
+      message.chat,
+      `${exceeded} Start the message with !urgent if it can't wait.`,
+      { replyTo: message.messageId }
+    );
+    return;
+  }
+
+  console.log(`${tag} Message: ${message.text.substring(0, 50)}...`);
+
+  const result = chatQueue.enqueue(sessionKeyToString(message.chat), { adapter, message, model });
+  if (result.status === "rejected") {
+    console.log(`${tag} Queue full: ${message.chat.chatId}`);
+    await adapter.send(message.chat, "Too many messages waiting. Please wait for the current reply.");
+  } else if (result.status === "queued") {
+    await adapter.send(
+      message.chat,
+      `Queued (${result.waiting} waiting). I'll handle this right after the current request.`,
+      { replyTo: message.messageId }
+    );
+  }
+}
+
+/**
+ * Workspace and per-user budget limits of the sender's role.
+ * Returns why the message is refused, or null.
+ */
+async function checkRoleLimits(message: InboundMessage, role: Role): Promise<string | null> {
+  const limits = await roleLimits(role);
+
+  const workspace = await activeWorkspace(message.chat);
+  if (workspace && !canUseWorkspace(limits, workspace.name)) {
+    return `Your role (${role}) can't use the ${workspace.name} workspace. Pick another with /project.`;
+  }
+
+  if (limits.dailyBudgetUsd > 0) {
+    const spent = await getUserSpendToday(userKey(message.platform, message.userId));
+    if (spent >= limits.dailyBudgetUsd) {
+      return `You've used your daily budget (${formatUsd(spent)} of ${formatUsd(limits.dailyBudgetUsd)}). Try again tomorrow.`;
+    }
+  }
+
+  return null;
+}
+
+function platformTag(adapter: PlatformAdapter): string {
+  return `[${adapter.platform[0].toUpperCase()}${adapter.platform.slice(1)}]`;
+}
+
+// ============================================================
+// MESSAGE QUEUE
+// ============================================================
+
+interface QueuedMessage {
+  adapter: PlatformAdapter;
+  message: InboundMessage;
+  /** One-off model from an inline prefix like "!opus" */
+  model: string | null;
+}
+
+/** A scheduled job for the conversation (see SCHEDULED JOBS) */
+interface QueuedJob {
+  job: Job;
+}
+
+/** A local API request; the HTTP or WebSocket caller waits for respond */
+interface QueuedApiRequest {
+  api: {
+    message: InboundMessage;
+    model: string | null;
+    onProgress?: (text: string) => void;
+    respond: (reply: string) => void;
+  };
+}
+
+const claudeSlots = createSemaphore(MAX_CONCURRENT_CLAUDE);
+
+// One job at a time per conversation; bursts from one author are merged into
+// one prompt.
+// Scheduled jobs and API requests go through the same queue, so they never
+// resume a session a message is using.
+const chatQueue = createChatQueue<QueuedMessage | QueuedJob | QueuedApiRequest>({
+  coalesceMs: QUEUE_COALESCE_MS,
+  maxPending: MAX_PENDING_PER_CHAT,
+  process: async (_key, items) => {
+    for (const item of items) {
+      if ("job" in item) await runJob(item.job);
+      // Each API request gets its own answer, so they are never merged
+      if ("api" in item) await runApiRequest(item.api);
+    }
+
+    const messages = items.filter((item): item is QueuedMessage => "message" in item);
+    for (const group of groupByAuthor(messages)) {
+      await runQueuedMessages(
+        group[0].adapter,
+        group.map((i) => i.message),
+        // The latest inline model override wins for a merged burst
+        group.map((i) => i.model).filter(Boolean).pop() ?? null
+      );
+    }
+  },
+});
+
+/**
+ * Split a burst into runs of consecutive messages by the same author. Each
+ * run is answered with its sender's role, tools, memory and budget.
+ */
+function groupByAuthor(messages: QueuedMessage[]): QueuedMessage[][] {
+  const groups: QueuedMessage[][] = [];
+  for (const item of messages) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].message.userId === item.message.userId) last.push(item);
+    else groups.push([item]);
+  }
+  return groups;
+}
+
+async function runQueuedMessages(
+  adapter: PlatformAdapter,
+  messages: InboundMessage[],
+  model: string | null
+): Promise<void> {
+  const message = mergeMessages(messages);
+  if (messages.length > 1) {
+    console.log(`${platformTag(adapter)} Coalesced ${messages.length} messages`);
+  }
+
+  await adapter.sendTyping(message.chat);
+
+  const uploads: string[] = [];
+  try {
+    const text = await buildMessageText(adapter, message, uploads);
+    if (!text) return;
+
+    await streamReply(adapter, message, text, model);
+  } catch (error) {
+    console.error(`${platformTag(adapter)} Processing error:`, error);
+    await adapter.send(message.chat, "Could not process message.").catch(() => {});
+  } finally {
+    await cleanupUploads(uploads);
+  }
+}
+
+/**
+ * Merge a burst of messages by one author into one. The reply goes to the
+ * latest message.
+ */
+function mergeMessages(messages: InboundMessage[]): InboundMessage {
+  const last = messages[messages.length - 1];
+  if (messages.length === 1) return last;
+
+  const text = messages
+    .filter((m) => m.text)
+    .map((m) => m.text)
+    .join("\n\n");
+
+  return { ...last, text, attachments: messages.flatMap((m) => m.attachments) };
+}
+
+/**
+ * Build the prompt text from the message and its attachments. Problems with
+ * attachments are reported to the user; returns null if nothing is left.
+ */
+async function buildMessageText(
+  adapter: PlatformAdapter,
+  message: InboundMessage,
+  uploads: string[]
+): Promise<string | null> {
+  const resolved = await resolveAttachments(message.attachments, UPLOADS_DIR);
+  uploads.push(...resolved.uploads);
+
+  if (resolved.problems.length) {
+    await adapter.send(message.chat, resolved.problems.join("\n"));
+  }
+
+  const parts = [...resolved.parts];
+  const hasImages = resolved.parts.some((p) => p.startsWith("[Image:"));
+  const hasFiles = resolved.parts.some((p) => p.startsWith("[File:"));
+  const text = message.text ||
+    (hasImages ? "Analyze this image." : hasFiles ? "Take a look at the attached files." : "");
+  if (text) parts.push(text);
+
+  return parts.length ? parts.join("\n\n") : null;
+}
+
 // ============================================================
 // MESSAGE PROCESSING
 // ============================================================
 
-async function processMessage(text: string, userName?: string): Promise<string> {
-  // Gather context from MCP
-  const [relevantContext, memoryContext] = await Promise.all([
-    getRelevantContext(text),
-    getMemoryContext(),
+/**
+ * Memory of the person talking, not the whole team.
+ */
+function memoryScopeFor(message: InboundMessage, role: Role | null): MemoryScope {
+  return {
+    user: userKey(message.platform, message.userId),
+    chat: sessionKeyToString(message.chat),
+    isDirect: message.isDirect,
+    includeUnscoped: role === "owner",
+  };
+}
+
+async function processMessage(
+  message: InboundMessage,
+  text: string,
+  options?: {
+    /** Inline model override */
+    model?: string | null;
+    onApproval?: ApprovalHandler;
+    onProgress?: (text: string) => void;
+    onWaiting?: (position: number) => void;
+    onSoftTimeout?: (elapsedMs: number) => void;
+  }
+): Promise<string> {
+  // Burst authors may differ; the reply (and limits) follow the last one
+  const role = (await roleFor(message)) ?? "readonly";
+  const workspace = await activeWorkspace(message.chat);
+  const sessionKey: SessionKey = workspace ? { ...message.chat, workspace: workspace.name } : message.chat;
+
+  const session = await loadSession(sessionKey);
+  const choice = chooseModel({ inline: options?.model, pinned: session.model, workspace: workspace?.model, text });
+  if (choice.model) console.log(`[Claude] Model: ${choice.model} (${choice.reason})`);
+
+  // Memory and profile of the person talking, not the whole team
+  const user = userKey(message.platform, message.userId);
+  const memoryScope = memoryScopeFor(message, role);
+
+  // Gather context from memory
+  const [relevantContext, memoryContext, profile] = await Promise.all([
+    getRelevantContext(text, memoryScope),
+    getMemoryContext(memoryScope),
+    loadProfile(user, role),
   ]);
 
-  const enrichedPrompt = buildPrompt(text, relevantContext, memoryContext, userName);
-  const rawResponse = await callClaude(enrichedPrompt, { resume: true });
+  const enrichedPrompt = buildPrompt(text, relevantContext, memoryContext, message.userName, profile);
+
+  // Memory tags are handled once Claude finishes; progress shows the text without them
+  const onProgress = options?.onProgress;
+  const showProgress = onProgress && ((partial: string) => {
+    const visible = stripMemoryTags(partial);
+    if (visible) onProgress(visible);
+  });
+
+  const rawResponse = await callClaude(enrichedPrompt, {
+    resume: true,
+    sessionKey,
+    workspace,
+    model: choice.model,
+    onApproval: hasRole(role, "member") ? options?.onApproval : undefined,
+    user,
+    role,
+    onProgress: showProgress,
+    onWaiting: options?.onWaiting,
+    onSoftTimeout: options?.onSoftTimeout,
+    label: text,
+  });
 
   // Process memory intents and clean response
-  const response = await processMemoryIntents(rawResponse);
+  const response = await processMemoryIntents(rawResponse, memoryScope);
+  await saveConversation(text, response, memoryScope, message.platform);
+
+  // Budget thresholds crossed by this request
+  const warnings = await takeBudgetWarnings();
+  return warnings.length ? `${response}\n\n${warnings.join("\n\n")}` : response;
+}
+
+// ============================================================
+// STREAMING REPLIES
+// ============================================================
+
+const STOP_ACTION = "stop";
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max - 1) + "…" : text;
+}
+
+/**
+ * Reply with a placeholder message and edit it as Claude streams output.
+ * The final answer replaces the placeholder (formatted, split into chunks).
+ */
+async function streamReply(
+  adapter: PlatformAdapter,
+  message: InboundMessage,
+  text: string,
+  model: string | null
+): Promise<void> {
+  // Cancel button stays on the progress message until the answer replaces it
+  const buttons = [{ label: "Cancel", action: STOP_ACTION }];
+  const placeholderId = await adapter.send(message.chat, "Thinking...", { replyTo: message.messageId, buttons });
+
+  // Progress edits are plain text: partial Markdown may not parse
+  const editor = createThrottledEditor((progress) =>
+    adapter.edit(message.chat, placeholderId, truncate(progress, adapter.maxMessageLength), { buttons })
+  );
+  // Approval prompts still open when Claude finishes are withdrawn
+  const openApprovals = new Set<() => void>();
+
+  let response: string;
+  try {
+    response = await processMessage(message, text, {
+      model,
+      onApproval: (request) => askApproval(adapter, message, request, openApprovals),
+      onProgress: editor.update,
+      onWaiting: (position) =>
+        editor.update(position ? `Waiting for a free slot (position ${position})...` : "Thinking..."),
+      onSoftTimeout: (elapsed) => {
+        adapter.send(message.chat, `Still working... (${formatDuration(elapsed)} so far). Use /stop to cancel.`)
+          .catch(() => {});
+      },
+    });
+  } catch (error) {
+    console.error(`${platformTag(adapter)} Processing error:`, error);
+    await editor.stop();
+    openApprovals.forEach((cancel) => cancel());
+    // The error replaces the progress message, and its Cancel button with it
+    await adapter.edit(message.chat, placeholderId, "Could not process message.");
+    return;
+  }
+  await editor.stop();
+  openApprovals.forEach((cancel) => cancel());
+
+  await adapter.sendFormatted(message.chat, response || "(empty response)", { replaceId: placeholderId });
+}
+
+// ============================================================
+// TOOL APPROVALS
+// ============================================================
+
+/**
+ * Ask in the chat whether Claude may use a tool ("Allow Bash: rm -rf build?").
+ * The prompt message is updated with the outcome.
+ */
+async function askApproval(
+  adapter: PlatformAdapter,
+  message: InboundMessage,
+  request: ApprovalRequest,
+  openApprovals: Set<() => void>
+): Promise<ApprovalDecision> {
+  if (!adapter.supportsButtons) {
+    return { allow: false, reason: `Approvals are not available on ${adapter.platform}.`, decidedBy: "relay" };
+  }
+
+  const id = newApprovalId();
+  const summary = describeToolRequest(request);
+  const pending = waitForAnswer(id);
+  const cancel = () => pending.cancel("The request finished before an answer.");
+  openApprovals.add(cancel);
 
-  return response;
+  try {
+    const promptId = await adapter.send(message.chat, `Allow ${summary}?`, {
+      replyTo: message.messageId,
+      buttons: [
+        { label: "Allow", action: `${APPROVAL_ACTION_PREFIX}${id}:allow` },
+        { label: "Deny", action: `${APPROVAL_ACTION_PREFIX}${id}:deny` },
+      ],
+    });
+
+    const decision = await pending.answer;
+    const outcome = decision.allow ? "Allowed" : decision.decidedBy === "timeout" ? "Expired" : "Denied";
+    await adapter.edit(message.chat, promptId, `${outcome}: ${summary}`).catch(() => {});
+    return decision;
+  } catch (error) {
+    cancel();
+    throw error;
+  } finally {
+    openApprovals.delete(cancel);
+  }
+}
+
+/**
+ * Handle an Allow/Deny button press ("approve:<id>:allow").
+ */
+async function handleApprovalAction(action: string, message: InboundMessage): Promise<string> {
+  if (!hasRole(await roleFor(message), "member")) return "Only members can answer approvals.";
+
+  const [id, answer] = action.substring(APPROVAL_ACTION_PREFIX.length).split(":");
+  const decidedBy = message.userName || message.userId;
+  if (!answerApproval(id, answer === "allow", decidedBy)) return "This request has expired.";
+  return answer === "allow" ? "Allowed." : "Denied.";
+}
+
+// ============================================================
+// LOCAL API
+// ============================================================
+
+async function handleApiRequest(request: ApiRequest, onProgress?: (text: string) => void): Promise<string> {
+  const { urgent, text: afterUrgent } = parseUrgent(request.text);
+  const { model, text } = parseModelPrefix(afterUrgent);
+  const exceeded = await budgetExceeded();
+  if (exceeded && !urgent) return `Error: ${exceeded}`;
+
+  const message: InboundMessage = {
+    platform: "api",
+    chat: { platform: "api", chatId: request.chatId },
+    messageId: String(Date.now()),
+    userId: "api",
+    userName: request.userName || USER_NAME,
+    isDirect: true,
+    text,
+    attachments: [],
+  };
+
+  console.log(`[API] Message (${request.chatId}): ${text.substring(0, 50)}...`);
+
+  // Same queue as chat messages: one Claude run per conversation at a time
+  return new Promise((respond) => {
+    const result = chatQueue.enqueue(sessionKeyToString(message.chat), { api: { message, model, onProgress, respond } });
+    if (result.status === "rejected") respond("Error: Too many messages waiting for this chat. Try again shortly.");
+  });
+}
+
+async function runApiRequest(request: QueuedApiRequest["api"]): Promise<void> {
+  const { message, model, onProgress, respond } = request;
+  try {
+    respond(await processMessage(message, message.text, { model, onProgress }));
+  } catch (error) {
+    console.error("[API] Processing error:", error);
+    respond("Error: Could not process message.");
+  }
 }
 
 // ============================================================
 // PROMPT BUILDER
 // ============================================================
 
-let profileContext = "";
-try {
-  profileContext = await readFile(join(PROJECT_ROOT, "config", "profile.md"), "utf-8");
-} catch {
-  // No profile yet
+const PROFILES_DIR = join(PROJECT_ROOT, "config", "profiles");
+
+/**
+ * Profile of the person talking: config/profiles/<platform>_<userId>.md,
+ * falling back to config/profile.md for owners.
+ */
+async function loadProfile(user: string, role: Role): Promise<string> {
+  const own = await readFile(join(PROFILES_DIR, `${user.replace(/[^\w.-]/g, "_")}.md`), "utf-8").catch(() => "");
+  if (own || role !== "owner") return own;
+
+  return readFile(join(PROJECT_ROOT, "config", "profile.md"), "utf-8").catch(() => "");
 }
 
 function buildPrompt(
   userMessage: string,
   relevantContext?: string,
   memoryContext?: string,
-  userName?: string
+  userName?: string,
+  profileContext?: string
 ): string {
   const now = new Date();
   const timeStr = now.toLocaleString("en-US", {
@@ -396,8 +1143,14 @@ function buildPrompt(
     "\nWhen the user shares something worth remembering, sets goals, or completes goals," +
     "\ninclude these tags in your response (they are processed automatically):" +
     "\n[REMEMBER: fact to store]" +
+    "\n[REMEMBER: fact the whole team should know | SHARED]" +
+    "\n[PREFERENCE: how the user likes things done]" +
     "\n[GOAL: goal text | DEADLINE: optional date]" +
-    "\n[DONE: search text for completed goal]"
+    "\n[REMIND: what to remind about | AT: date and time]" +
+    "\n[DONE: goal ID or search text]" +
+    "\n[UPDATE: ID | new text | DEADLINE: optional date]" +
+    "\n[FORGET: ID or search text]" +
+    "\nRemembered items above are shown with IDs in brackets, e.g. [3f9a1c]; use them to refer to an item."
   );
 
   parts.push(`\nUser: ${userMessage}`);
@@ -406,88 +1159,767 @@ function buildPrompt(
 }
 
 // ============================================================
-// TELEGRAM HANDLERS
+// COMMANDS (Telegram bot commands / Discord slash commands)
 // ============================================================
 
-if (telegramBot) {
-  // Text messages
-  telegramBot.on("message:text", async (ctx) => {
-    const userId = ctx.from?.id.toString() || "unknown";
-    
-    // Rate limiting
-    if (!checkRateLimit(userId)) {
-      console.log(`[Telegram] Rate limited: ${userId}`);
-      return;
-    }
-    
-    const text = ctx.message.text;
-    console.log(`[Telegram] Message: ${text.substring(0, 50)}...`);
-    await ctx.replyWithChatAction("typing");
+const commands: CommandDefinition[] = [
+  {
+    name: "new",
+    description: "Start a fresh Claude session",
+    handler: async ({ message }) => handleNewCommand(await workspaceSessionKey(message.chat)),
+  },
+  {
+    name: "sessions",
+    description: "List recent Claude sessions",
+    handler: async ({ message }) => handleSessionsCommand(await workspaceSessionKey(message.chat)),
+  },
+  {
+    name: "resume",
+    description: "Switch back to a previous session",
+    argName: "id",
+    argRequired: true,
+    handler: async ({ message, args }) => handleResumeCommand(await workspaceSessionKey(message.chat), args),
+  },
+  {
+    name: "model",
+    description: "Show or pin the Claude model for this chat",
+    argName: "name",
+    handler: async ({ message, args }) => handleModelCommand(await workspaceSessionKey(message.chat), args),
+  },
+  {
+    name: "project",
+    description: "Show or switch the project workspace",
+    argName: "name",
+    handler: ({ message, args }) => handleProjectCommand(message, args),
+  },
+  {
+    name: "stop",
+    description: "Stop the running Claude request",
+    handler: async ({ message }) => stopClaude(message.chat),
+  },
+  {
+    name: "usage",
+    description: "Show Claude usage and cost",
+    handler: () => handleUsageCommand(),
+  },
+  {
+    name: "status",
+    description: "Show relay status",
+    handler: async () => handleStatusCommand(),
+  },
+  {
+    name: "memory",
+    description: "Search memory, or edit an item (edit <id> <text>)",
+    argName: "query",
+    handler: ({ message, args }) => handleMemoryCommand(message, args),
+  },
+  {
+    name: "facts",
+    description: "List remembered facts and preferences",
+    argName: "page",
+    handler: ({ message, args }) => handleFactsCommand(message, Number(args) || 1),
+  },
+  {
+    name: "goals",
+    description: "List open goals (done <id> to complete one)",
+    argName: "page",
+    handler: ({ message, args }) => handleGoalsCommand(message, args),
+  },
+  {
+    name: "forget",
+    description: "Delete a memory item by ID or text",
+    argName: "item",
+    argRequired: true,
+    handler: async ({ message, args }) => forgetMemory(args, memoryScopeFor(message, await roleFor(message))),
+  },
+  {
+    name: "jobs",
+    description: "List scheduled jobs, or pause/resume/run/schedule one (owner)",
+    argName: "action",
+    handler: ({ args }) => handleJobsCommand(args),
+  },
+  {
+    name: "join",
+    description: "Join with an invite code",
+    argName: "code",
+    argRequired: true,
+    handler: ({ message, args }) => handleJoinCommand(message, args),
+  },
+  {
+    name: "invite",
+    description: "Create an invite code (owner)",
+    argName: "role",
+    handler: ({ message, args }) => handleInviteCommand(message, args),
+  },
+  {
+    name: "allow",
+    description: "List users or grant a role (owner)",
+    argName: "user",
+    handler: ({ message, args }) => handleAllowCommand(message, args),
+  },
+  {
+    name: "revoke",
+    description: "Remove a user's access (owner)",
+    argName: "user",
+    argRequired: true,
+    handler: ({ args }) => handleRevokeCommand(args),
+  },
+];
+
+// Minimum role per command (null = anyone); others need readonly
+const COMMAND_ROLES: Record<string, Role | null> = {
+  join: null,
+  forget: "member",
+  jobs: "owner",
+  invite: "owner",
+  allow: "owner",
+  revoke: "owner",
+};
+
+const authorizedCommands = commands.map((command): CommandDefinition => ({
+  ...command,
+  handler: async (ctx) => {
+    const required = command.name in COMMAND_ROLES ? COMMAND_ROLES[command.name] : "readonly";
+    if (required === null) return command.handler(ctx);
+
+    const role = await roleFor(ctx.message);
+    if (!role) return PRIVATE_NOTICE;
+    if (!hasRole(role, required)) return `/${command.name} needs the ${required} role.`;
+    return command.handler(ctx);
+  },
+}));
+
+for (const adapter of adapters) {
+  adapter.registerCommands(authorizedCommands);
+  adapter.onMessage((message) => handleInbound(adapter, message));
+  adapter.onAction(async ({ action, message }) => {
+    if (!(await roleFor(message))) return "This bot is private.";
+    if (action === STOP_ACTION) return stopClaude(message.chat);
+    if (action.startsWith(APPROVAL_ACTION_PREFIX)) return handleApprovalAction(action, message);
+    if (action.startsWith(MEMORY_ACTION_PREFIX)) return handleMemoryAction(adapter, action, message);
+    if (action.startsWith(REMINDER_ACTION_PREFIX)) return handleReminderAction(action, message);
+  });
+}
+
+async function handleNewCommand(key: SessionKey): Promise<string> {
+  await startNewSession(key);
+  return "Started a new session. The next message begins a fresh conversation.";
+}
 
-    const response = await processMessage(text, ctx.from?.first_name);
-    await ctx.reply(response);
+async function handleSessionsCommand(key: SessionKey): Promise<string> {
+  const sessions = await listSessions(key);
+  if (!sessions.length) return "No sessions yet.";
+
+  const current = (await loadSession(key)).sessionId;
+  const lines = sessions.map((s) => {
+    const marker = s.sessionId === current ? " (current)" : "";
+    const cost = s.usage ? ` - ${formatUsd(s.usage.costUsd)}, ${s.usage.requests} msg` : "";
+    return `${s.sessionId.substring(0, 8)} - ${formatTimestamp(s.lastActivity)}${cost}${marker}`;
   });
 
-  // Voice messages
-  telegramBot.on("message:voice", async (ctx) => {
-    const voice = ctx.message.voice;
-    console.log(`[Telegram] Voice: ${voice.duration}s`);
-    await ctx.replyWithChatAction("typing");
+  return `Recent sessions:\n${lines.join("\n")}\n\nUse /resume <id> to switch.`;
+}
 
-    if (!process.env.VOICE_PROVIDER) {
-      await ctx.reply("Voice transcription not configured.");
-      return;
-    }
+async function handleResumeCommand(key: SessionKey, idOrPrefix: string): Promise<string> {
+  const id = idOrPrefix.trim();
+  if (!id) return "Usage: /resume <session id>";
+
+  const resumed = await resumeSession(key, id);
+  if (!resumed?.sessionId) return `No unique previous session matches "${id}". See /sessions.`;
+
+  return `Resumed session ${resumed.sessionId.substring(0, 8)}.`;
+}
+
+async function handleModelCommand(key: SessionKey, name: string): Promise<string> {
+  const requested = name.trim().toLowerCase();
+
+  if (!requested) {
+    const session = await loadSession(key);
+    const workspace = await activeWorkspace(key);
+    return [
+      `Pinned: ${session.model || "none"}`,
+      ...(workspace?.model ? [`Workspace ${workspace.name}: ${workspace.model}`] : []),
+      describeModelDefaults(),
+      ...(session.lastModel ? [`Last used: ${session.lastModel}`] : []),
+      "",
+      `Use /model <${MODEL_ALIASES.join("|")}> to pin, /model auto to unpin, or start a message with !opus for one request.`,
+    ].join("\n");
+  }
+
+  if (requested === "auto" || requested === "default") {
+    await setSessionModel(key, null);
+    return `Model unpinned. ${describeModelDefaults()}`;
+  }
+
+  const model = normalizeModel(requested);
+  if (!model) return `Unknown model "${name.trim()}". Use ${MODEL_ALIASES.join(", ")} or a full model ID.`;
+
+  await setSessionModel(key, model);
+  return `This chat now uses ${model}.`;
+}
+
+async function handleProjectCommand(message: InboundMessage, name: string): Promise<string> {
+  const chat = message.chat;
+  const registry = await loadWorkspaces();
+  if (!registry.workspaces.length) {
+    return `No workspaces configured. Working in ${PROJECT_DIR || "the relay dir"}.\n` +
+      "Copy config/workspaces.example.json to config/workspaces.json to add some.";
+  }
+
+  const current = await activeWorkspace(chat);
+  const requested = name.trim();
+  const limits = await roleLimits((await roleFor(message)) ?? "readonly");
+  const available = registry.workspaces.filter((w) => canUseWorkspace(limits, w.name));
+
+  if (!requested) {
+    if (!available.length) return "Your role can't use any workspace.";
+    const lines = available.map((w) => {
+      const marker = w.name === current?.name ? " (current)" : "";
+      return `${w.name} - ${w.description || w.dir}${marker}`;
+    });
+    return `Workspaces:\n${lines.join("\n")}\n\nUse /project <name> to switch.`;
+  }
+
+  const target = available.find((w) => w.name.toLowerCase() === requested.toLowerCase());
+  if (!target) return `Unknown workspace "${requested}". See /project.`;
+  if (!(await workspaceDirExists(target))) return `Directory for ${target.name} not found: ${target.dir}`;
+
+  await setChatWorkspace(chat, target.name);
+  const session = await loadSession({ ...chat, workspace: target.name });
+  const sessionNote = session.sessionId
+    ? `Continuing session ${session.sessionId.substring(0, 8)}.`
+    : "A new session starts with the next message.";
+  return `Switched to ${target.name} (${target.dir}). ${sessionNote}`;
+}
+
+async function handleJoinCommand(message: InboundMessage, code: string): Promise<string> {
+  if (!code.trim()) return "Usage: /join <invite code>";
+
+  const user = userKey(message.platform, message.userId);
+  const role = await redeemInvite(code, user, message.userName);
+  if (!role) return "That invite code is invalid or has expired.";
+
+  return `Welcome${message.userName ? `, ${message.userName}` : ""}! You have the ${role} role.`;
+}
+
+async function handleInviteCommand(message: InboundMessage, roleName: string): Promise<string> {
+  await claimOwnershipIfOpen(message);
+  const role = roleName.trim() ? parseRole(roleName) : "member";
+  if (!role) return `Unknown role "${roleName.trim()}". Use ${ROLES.join(", ")}.`;
+
+  const invite = await createInvite(role, userKey(message.platform, message.userId));
+  return `Invite code: ${invite.code} (${role}, valid until ${formatTimestamp(invite.expiresAt)}).\n` +
+    `The new user sends /join ${invite.code} to the bot.`;
+}
+
+async function handleAllowCommand(message: InboundMessage, args: string): Promise<string> {
+  const [user, roleName] = args.trim().split(/\s+/).filter(Boolean);
+
+  if (!user) {
+    const users = await listUsers();
+    if (!users.length) return "No users yet. Use /allow <platform:userId> [role] or /invite.";
+    const lines = users.map((u) => `${u.user} - ${u.role}${u.name ? ` (${u.name})` : ""}`);
+    return `Users:\n${lines.join("\n")}`;
+  }
+
+  if (!/^(telegram|discord|slack):\S+$/.test(user)) {
+    return "Usage: /allow <platform:userId> [role], e.g. /allow discord:123456789 member";
+  }
+
+  const role = roleName ? parseRole(roleName) : "member";
+  if (!role) return `Unknown role "${roleName}". Use ${ROLES.join(", ")}.`;
+
+  await claimOwnershipIfOpen(message);
+  await grantRole(user, role, userKey(message.platform, message.userId));
+  return `${user} now has the ${role} role.`;
+}
+
+/**
+ * The first user added closes open access, so whoever adds them becomes an
+ * owner first instead of locking themselves out. Only from a direct message,
+ * never from a shared channel.
+ */
+async function claimOwnershipIfOpen(message: InboundMessage): Promise<void> {
+  if (message.platform === "api" || !message.isDirect || !(await isOpenAccess())) return;
+  await grantRole(userKey(message.platform, message.userId), "owner", "first owner", message.userName);
+}
+
+async function handleRevokeCommand(args: string): Promise<string> {
+  const user = args.trim();
+  if (!user) return "Usage: /revoke <platform:userId>";
+
+  if (await revokeUser(user)) return `Revoked access for ${user}.`;
+  if ((await getRole(user)) === "owner") return `${user} is an owner from OWNER_IDS; remove them there.`;
+  return `${user} has no access.`;
+}
+
+async function handleUsageCommand(): Promise<string> {
+  const report = await getUsageReport();
+
+  const lines = [
+    `Today: ${formatTotals(report.today)}`,
+    `Last 7 days: ${formatTotals(report.week)}`,
+    `This month: ${formatTotals(report.month)}`,
+  ];
+
+  const platforms = Object.entries(report.byPlatform);
+  if (platforms.length > 1) {
+    lines.push("", "This month by platform:");
+    for (const [platform, totals] of platforms) lines.push(`  ${platform}: ${formatTotals(totals)}`);
+  }
+
+  const budgets = describeBudgets(report);
+  if (budgets.length) lines.push("", ...budgets);
+
+  return lines.join("\n");
+}
+
+async function handleStatusCommand(): Promise<string> {
+  const workspaceCount = (await loadWorkspaces()).workspaces.length;
+  const jobCount = (await loadJobs()).length;
+  return [
+    `Memory: ${memoryBackend()} (${memoryReady ? "ready" : "failed"})`,
+    `Claude path: ${CLAUDE_PATH}`,
+    `Project: ${PROJECT_DIR || "(relay dir)"}`,
+    `Workspaces: ${workspaceCount || "none"}`,
+    `Jobs: ${jobCount || "none"}`,
+    `Platforms: ${adapters.map((a) => a.identity()).join(", ")}`,
+    `Uptime: ${formatDuration(Date.now() - STARTED_AT)}`,
+  ].join("\n");
+}
+
+// ============================================================
+// MEMORY COMMANDS
+// ============================================================
+
+const MEMORY_ACTION_PREFIX = "memory:";
+// Readonly users may look at memory but not change it
+const MEMORY_CHANGE_NOTICE = "Changing memory needs the member role.";
+const FACTS_PAGE_SIZE = 10;
+// One Done button per goal
+const GOALS_PAGE_SIZE = 5;
+
+function describeMemoryItem(item: MemoryItem): string {
+  const deadline = item.deadline ? ` (by ${formatDeadline(item.deadline)})` : "";
+  const kind = item.type === "preference" ? " (preference)" : item.scope === "memory:shared" ? " (team)" : "";
+  return `[${shortId(item)}] ${item.content}${deadline}${kind}`;
+}
+
+/**
+ * One page of a list, with a Next button when more pages follow.
+ */
+function memoryPage(
+  title: string,
+  items: MemoryItem[],
+  page: number,
+  pageSize: number,
+  nextAction: string
+): { text: string; items: MemoryItem[]; buttons: Button[] } {
+  const pages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pages);
+  const shown = items.slice((current - 1) * pageSize, current * pageSize);
+  const header = pages > 1 ? `${title} (page ${current}/${pages}):` : `${title}:`;
+  const lines = shown.map((item, i) => `${(current - 1) * pageSize + i + 1}. ${describeMemoryItem(item)}`);
+  const buttons = current < pages ? [{ label: "Next", action: `${nextAction}${current + 1}` }] : [];
+  return { text: [header, ...lines].join("\n"), items: shown, buttons };
+}
+
+async function handleMemoryCommand(message: InboundMessage, args: string): Promise<string> {
+  const role = await roleFor(message);
+  const scope = memoryScopeFor(message, role);
+  const query = args.trim();
+
+  const edit = query.match(/^edit\s+(\S+)\s+(.+)$/is);
+  if (edit) return hasRole(role, "member") ? editMemory(edit[1], edit[2].trim(), scope) : MEMORY_CHANGE_NOTICE;
+
+  if (!query) {
+    const [facts, goals, done] = await Promise.all([
+      listMemory(["fact", "preference"], scope),
+      listMemory(["goal"], scope),
+      listMemory(["completed_goal"], scope),
+    ]);
+    return [
+      `Memory (${memoryBackend()}): ${facts.length} fact(s), ${goals.length} open goal(s), ${done.length} done`,
+      "",
+      "/facts - list facts and preferences",
+      "/goals - list open goals",
+      "/memory <text> - search",
+      "/memory edit <id> <text> - change an item",
+      "/forget <id> - delete an item",
+    ].join("\n");
+  }
+
+  const found = await searchMemory(query, scope);
+  if (!found.length) return `Nothing in memory matches "${query}".`;
+  return [`Matches for "${query}":`, ...found.slice(0, FACTS_PAGE_SIZE).map(describeMemoryItem)].join("\n");
+}
+
+async function handleFactsCommand(message: InboundMessage, page: number): Promise<CommandReply> {
+  const scope = memoryScopeFor(message, await roleFor(message));
+  const facts = await listMemory(["fact", "preference"], scope);
+  if (!facts.length) return "No facts remembered yet.";
+
+  const { text, buttons } = memoryPage("Facts", facts, page, FACTS_PAGE_SIZE, `${MEMORY_ACTION_PREFIX}facts:`);
+  return { text, buttons };
+}
+
+async function handleGoalsCommand(message: InboundMessage, args: string): Promise<CommandReply> {
+  const role = await roleFor(message);
+  const scope = memoryScopeFor(message, role);
+
+  // Platforms without buttons: /goals done <id>
+  const done = args.trim().match(/^done\s+(.+)$/i);
+  if (done) return hasRole(role, "member") ? completeGoal(done[1], scope) : MEMORY_CHANGE_NOTICE;
+
+  const goals = await listMemory(["goal"], scope);
+  if (!goals.length) return "No open goals.";
 
-    try {
-      const file = await ctx.getFile();
-      const url = `https://api.telegram.org/file/bot${TELEGRAM_BOT_TOKEN}/${file.file_path}`;
-      const buffer = Buffer.from(await (await fetch(url)).arrayBuffer());
-      const transcription = await transcribe(buffer);
-      
-      if (!transcription) {
-        await ctx.reply("Could not transcribe voice.");
-        return;
+  const page = memoryPage("Open goals", goals, Number(args) || 1, GOALS_PAGE_SIZE, `${MEMORY_ACTION_PREFIX}goals:`);
+  const offset = goals.indexOf(page.items[0]);
+  const doneButtons = page.items.map((item, i) => ({
+    label: `Done ${offset + i + 1}`,
+    action: `${MEMORY_ACTION_PREFIX}done:${shortId(item)}`,
+  }));
+  return { text: page.text, buttons: [...doneButtons, ...page.buttons] };
+}
+
+/**
+ * Handle memory buttons: "memory:done:<id>", "memory:facts:<page>",
+ * "memory:goals:<page>". Pages are sent as new messages.
+ */
+async function handleMemoryAction(adapter: PlatformAdapter, action: string, message: InboundMessage): Promise<string> {
+  const [kind, value] = action.substring(MEMORY_ACTION_PREFIX.length).split(":");
+
+  if (kind === "done") {
+    const role = await roleFor(message);
+    return hasRole(role, "member") ? completeGoal(value, memoryScopeFor(message, role)) : MEMORY_CHANGE_NOTICE;
+  }
+
+  const reply = kind === "facts"
+    ? await handleFactsCommand(message, Number(value))
+    : await handleGoalsCommand(message, value);
+  await adapter.send(message.chat, replyText(reply), { buttons: replyButtons(reply) });
+  return "";
+}
+
+// ============================================================
+// GOAL REMINDERS
+// ============================================================
+
+let checkingReminders = false;
+
+/**
+ * Send due goal reminders to the chats the goals were set in.
+ */
+async function checkReminders(): Promise<void> {
+  if (checkingReminders) return;
+  checkingReminders = true;
+
+  try {
+    for (const reminder of await getDueReminders(await listScheduledGoals())) {
+      const { item, kind } = reminder;
+      const chat = itemChat(item);
+      const key = chat ? parseSessionKey(chat) : null;
+      const adapter = key && adapters.find((a) => a.platform === key.platform);
+      if (!key || !adapter) {
+        // Team or unscoped goal, or its platform isn't running: nowhere to send
+        await markReminderSent(item.id, kind);
+        continue;
       }
 
-      const response = await processMessage(`[Voice]: ${transcription}`, ctx.from?.first_name);
-      await ctx.reply(response);
-    } catch (error) {
-      console.error("[Telegram] Voice error:", error);
-      await ctx.reply("Could not process voice message.");
+      const text = adapter.supportsButtons
+        ? describeReminder(reminder)
+        : `${describeReminder(reminder)} Use /goals done ${shortId(item)} when finished.`;
+      try {
+        await adapter.send(key, text, {
+          buttons: [
+            { label: "Done", action: `${MEMORY_ACTION_PREFIX}done:${shortId(item)}` },
+            { label: "Snooze", action: `${REMINDER_ACTION_PREFIX}snooze:${item.id}` },
+          ],
+        });
+        await markReminderSent(item.id, kind);
+        console.log(`[Reminders] Sent ${kind} reminder for ${shortId(item)} to ${chat}`);
+      } catch (error) {
+        console.error(`[Reminders] Could not send to ${chat}:`, error);
+      }
     }
+  } catch (error) {
+    console.error("[Reminders] Check error:", error);
+  } finally {
+    checkingReminders = false;
+  }
+}
+
+/**
+ * Handle a Snooze button ("reminder:snooze:<goal id>"), for the goal's owner.
+ */
+async function handleReminderAction(action: string, message: InboundMessage): Promise<string> {
+  const [kind, id] = action.substring(REMINDER_ACTION_PREFIX.length).split(":");
+  if (kind !== "snooze" || !id) return "";
+
+  const role = await roleFor(message);
+  if (!hasRole(role, "member")) return MEMORY_CHANGE_NOTICE;
+  if (!(await canChangeGoal(id, memoryScopeFor(message, role)))) return "Only the goal's owner can snooze it.";
+  const until = await snoozeReminder(id);
+  return `Snoozed until ${formatTimestamp(until.toISOString())}.`;
+}
+
+// ============================================================
+// SCHEDULED JOBS
+// ============================================================
+
+// Jobs queued or in progress, so a slow run isn't started again
+const runningJobs = new Set<string>();
+// The job running in each chat, marked when /stop ends its Claude run
+const activeJobRuns = new Map<string, { stopped: boolean }>();
+
+/**
+ * Queue the jobs that are due, each in its chat's queue.
+ */
+async function checkJobs(): Promise<void> {
+  try {
+    for (const job of await getDueJobs()) {
+      if (!runningJobs.has(job.name)) enqueueJob(job);
+    }
+  } catch (error) {
+    console.error("[Jobs] Check error:", error);
+  }
+}
+
+/**
+ * Queue a job behind the chat's messages. Returns false if the chat's queue
+ * is full (the job is tried again at the next check while still due).
+ */
+function enqueueJob(job: Job): boolean {
+  const result = chatQueue.enqueue(sessionKeyToString(parseSessionKey(job.chat)), { job });
+  if (result.status === "rejected") {
+    console.log(`[Jobs] Queue full for ${job.chat}, ${job.name} waits`);
+    return false;
+  }
+  runningJobs.add(job.name);
+  return true;
+}
+
+/**
+ * What a briefing or prompt job asks, as if the user had written it.
+ */
+function jobPrompt(job: Job): string {
+  const intro = `(Scheduled job "${job.name}", not a message from me.)`;
+  if (job.type === "prompt") return `${intro} ${job.prompt}`;
+  return `${intro} ${job.prompt ||
+    "Give me my briefing for today: open goals and deadlines (overdue ones first), " +
+    "anything you remember that matters today, and what to focus on first. Keep it short and easy to scan."}`;
+}
+
+interface JobOutcome {
+  status: JobStatus;
+  note?: string;
+  /** What to send to the job's chat */
+  text?: string;
+}
+
+/**
+ * Run a job as its user, in its chat's session, and send the result there.
+ * Called from the chat queue.
+ */
+async function runJob(job: Job): Promise<void> {
+  try {
+    await runJobInChat(job);
+  } finally {
+    runningJobs.delete(job.name);
+  }
+}
+
+async function runJobInChat(job: Job): Promise<void> {
+  const chat = parseSessionKey(job.chat);
+  const adapter = adapters.find((a) => a.platform === chat.platform);
+  if (!adapter) {
+    await recordJobRun(job.name, "failed", `${chat.platform} isn't running`);
+    return;
+  }
+  if (!job.user.startsWith(`${chat.platform}:`)) {
+    await recordJobRun(job.name, "failed", `user ${job.user} isn't on ${chat.platform}`);
+    return;
+  }
+
+  const exceeded = await budgetExceeded();
+  if (exceeded) {
+    await recordJobRun(job.name, "skipped", exceeded);
+    return;
+  }
+
+  const message: InboundMessage = {
+    platform: chat.platform,
+    chat,
+    messageId: `job:${job.name}`,
+    userId: job.user.substring(chat.platform.length + 1),
+    userName: USER_NAME,
+    // Sent to the user's own private chat: all of their memory applies
+    isDirect: job.user === job.chat,
+    // Check-ins build their own prompt (see checkins.ts)
+    text: job.type === "checkin" ? "" : jobPrompt(job),
+    attachments: [],
+  };
+  const role = await roleFor(message);
+  if (!role) {
+    await recordJobRun(job.name, "failed", `${job.user} has no access to ${job.chat}`);
+    return;
+  }
+
+  console.log(`[Jobs] Running ${job.name} (${job.type}) for ${job.chat}`);
+  const key = sessionKeyToString(chat);
+  const run = { stopped: false };
+  activeJobRuns.set(key, run);
+  try {
+    const outcome = job.type === "checkin" ? await decideCheckin(job, message, role) : await answerJob(message);
+    if (run.stopped) {
+      await recordJobRun(job.name, "stopped", "stopped with /stop");
+      return;
+    }
+    if (outcome.text) {
+      await adapter.sendFormatted(chat, outcome.text);
+      if (job.type === "checkin") await recordCheckin(job.user);
+    }
+    await recordJobRun(job.name, outcome.status, outcome.note);
+  } catch (error: any) {
+    console.error(`[Jobs] ${job.name} failed:`, error);
+    await recordJobRun(job.name, "failed", error?.message || String(error));
+  } finally {
+    activeJobRuns.delete(key);
+  }
+}
+
+/**
+ * Briefings and prompts: answered like a message in the chat's session,
+ * so the user can reply to the result.
+ */
+async function answerJob(message: InboundMessage): Promise<JobOutcome> {
+  const response = (await processMessage(message, message.text)).trim();
+  if (response.startsWith("Error:")) return { status: "failed", note: response.substring("Error:".length).trim() };
+  return { status: "sent", text: response || "(empty response)" };
+}
+
+/**
+ * Check-ins: after quiet hours, the daily cap and recent activity allow it,
+ * Claude decides from the user's activity and pending goals. The decision
+ * runs without tools and outside the chat's session, charged to the chat.
+ */
+async function decideCheckin(job: Job, message: InboundMessage, role: Role): Promise<JobOutcome> {
+  const blocked = await checkinBlocked(job.user);
+  if (blocked) return { status: "skipped", note: blocked };
+
+  const memoryContext = await getMemoryContext(memoryScopeFor(message, role));
+  const prompt = await buildCheckinPrompt({
+    user: job.user,
+    userName: message.userName,
+    memoryContext,
+    instructions: job.prompt,
+  });
+
+  const output = await callClaude(prompt, {
+    sessionKey: parseSessionKey(job.chat),
+    answerOnly: true,
+    user: job.user,
+    role,
+    label: `check-in (${job.name})`,
   });
+  if (output.startsWith("Error:")) return { status: "failed", note: output.substring("Error:".length).trim() };
+
+  const decision = parseCheckinDecision(output);
+  if (!decision) {
+    console.warn(`[Jobs] Unreadable check-in decision: ${output.substring(0, 200)}`);
+    return { status: "failed", note: "unreadable decision" };
+  }
+
+  console.log(`[Jobs] Check-in for ${job.user}: ${decision.checkin ? "yes" : "no"} (${decision.reason})`);
+  if (!decision.checkin) return { status: "skipped", note: decision.reason };
+  return { status: "sent", note: decision.reason, text: decision.message };
+}
 
-  // Photos
-  telegramBot.on("message:photo", async (ctx) => {
-    console.log("[Telegram] Photo received");
-    await ctx.replyWithChatAction("typing");
-
-    try {
-      const photos = ctx.message.photo;
-      const photo = photos[photos.length - 1];
-      const file = await ctx.api.getFile(photo.file_id);
-      
-      const timestamp = Date.now();
-      const filePath = join(UPLOADS_DIR, `image_${timestamp}.jpg`);
-      
-      const response = await fetch(`https://api.telegram.org/file/bot${TELEGRAM_BOT_TOKEN}/${file.file_path}`);
-      await writeFile(filePath, Buffer.from(await response.arrayBuffer()));
-      
-      const caption = ctx.message.caption || "Analyze this image.";
-      const prompt = `[Image: ${filePath}]\n\n${caption}`;
-      
-      const claudeResponse = await processMessage(prompt, ctx.from?.first_name);
-      
-      await unlink(filePath).catch(() => {});
-      await ctx.reply(claudeResponse);
-    } catch (error) {
-      console.error("[Telegram] Image error:", error);
-      await ctx.reply("Could not process image.");
+const JOBS_USAGE = "/jobs pause|resume|run <name>, /jobs schedule <name> <cron or reset>";
+
+/**
+ * /jobs lists jobs; "pause", "resume", "run" and "schedule" act on one.
+ */
+async function handleJobsCommand(args: string): Promise<string> {
+  const [action = "", name = "", ...rest] = args.trim().split(/\s+/);
+  if (!action) return listJobs();
+  if (!name) return `Usage: ${JOBS_USAGE}`;
+
+  switch (action.toLowerCase()) {
+    case "pause":
+    case "resume": {
+      const job = await setJobPaused(name, action.toLowerCase() === "pause");
+      if (typeof job === "string") return job;
+      return job.paused ? `Paused ${job.name}.` : `Resumed ${job.name}. ${describeNextRun(job)}`;
+    }
+    case "run": {
+      const job = await findJob(name);
+      if (!job) return `No job named "${name}". See /jobs.`;
+      if (runningJobs.has(job.name)) return `${job.name} is already queued or running.`;
+      if (!enqueueJob(job)) return `${job.chat} has too many messages waiting. Try again shortly.`;
+      return `Running ${job.name}. The result goes to ${job.chat}.`;
+    }
+    case "schedule": {
+      const expression = rest.join(" ");
+      if (!expression) return "Usage: /jobs schedule <name> <cron>, e.g. /jobs schedule morning-briefing 30 8 * * 1-5";
+      const job = await setJobSchedule(name, expression.toLowerCase() === "reset" ? null : expression);
+      if (typeof job === "string") return job;
+      return `${job.name} now runs on "${job.schedule}". ${describeNextRun(job)}`;
+    }
+    default:
+      return `Unknown action "${action}". Usage: ${JOBS_USAGE}`;
+  }
+}
+
+async function listJobs(): Promise<string> {
+  const jobs = await loadJobs();
+  if (!jobs.length) return "No scheduled jobs. Add them to config/schedule.json (see schedule.example.json).";
+
+  const lines = ["Scheduled jobs:"];
+  for (const job of jobs) {
+    const changed = job.schedule !== job.configuredSchedule ? ` (configured: ${job.configuredSchedule})` : "";
+    const flags = [job.paused && "paused", runningJobs.has(job.name) && "running"].filter(Boolean);
+    lines.push(
+      "",
+      `${job.name} (${job.type}) → ${job.chat}`,
+      `  ${job.schedule}${changed}${flags.length ? `, ${flags.join(", ")}` : ""}`
+    );
+    const next = nextJobRun(job);
+    if (next) lines.push(`  Next: ${formatTimestamp(next.toISOString())}`);
+    if (job.lastRun) {
+      const note = job.lastNote ? `: ${job.lastNote}` : "";
+      lines.push(`  Last: ${formatTimestamp(job.lastRun)} (${job.lastStatus}${note})`);
     }
+  }
+  lines.push("", JOBS_USAGE);
+  return lines.join("\n");
+}
+
+function describeNextRun(job: Job): string {
+  const next = nextJobRun(job);
+  return next ? `Next run: ${formatTimestamp(next.toISOString())}.` : "It has no upcoming run.";
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: USER_TIMEZONE,
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
   });
 }
 
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (days) return `${days}d ${hours % 24}h`;
+  if (hours) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
 // ============================================================
 // START
 // ============================================================
@@ -499,29 +1931,47 @@ async function start() {
   
   if (TELEGRAM_BOT_TOKEN) {
     console.log(`[Telegram] Bot token: configured`);
-    console.log(`[Telegram] Allowed user: ${TELEGRAM_USER_ID || "ANY"}`);
   }
   
   if (DISCORD_BOT_TOKEN) {
     console.log(`[Discord] Bot token: configured`);
-    console.log(`[Discord] Allowed channels: ${DISCORD_CHANNEL_IDS.join(", ") || "ALL"}`);
+    console.log(`[Discord] Allowed channels: ${DISCORD_CHANNEL_IDS.join(", ") || "DMs only"}`);
+  }
+
+  if (SLACK_BOT_TOKEN) {
+    console.log(`[Slack] Bot token: configured`);
+    console.log(`[Slack] Allowed channels: ${SLACK_CHANNEL_IDS.join(", ") || "DMs only"}`);
   }
   
+  if (await isOpenAccess()) {
+    console.warn("[Access] No owner configured: anyone who can reach the bot has access, owners in DMs. Set OWNER_IDS.");
+  } else {
+    console.log(`[Access] ${(await listUsers()).length} user(s)`);
+  }
+
   console.log(`[Claude] Path: ${CLAUDE_PATH}`);
   console.log(`[Claude] Project: ${PROJECT_DIR || "(relay dir)"}`);
-  console.log(`[MCP] Status: ${mcpReady ? "connected" : "failed"}`);
+  console.log(`[Memory] ${memoryBackend()}: ${memoryReady ? "ready" : "failed"}`);
+  console.log(`[Jobs] ${(await loadJobs()).length} scheduled job(s)`);
   console.log("=".repeat(50) + "\n");
 
-  // Start Telegram
-  if (telegramBot) {
-    telegramBot.start({
-      onStart: () => console.log("[Telegram] Bot is running!"),
-    });
+  for (const adapter of adapters) {
+    await adapter.start();
   }
 
-  // Start Discord
-  if (discordClient) {
-    await discordClient.login(DISCORD_BOT_TOKEN);
+  setInterval(checkReminders, REMINDER_CHECK_MS);
+  checkReminders();
+
+  setInterval(checkJobs, JOB_CHECK_MS);
+  checkJobs();
+
+  if (RELAY_API_PORT) {
+    startApiServer({
+      hostname: RELAY_API_HOST,
+      port: RELAY_API_PORT,
+      token: RELAY_API_TOKEN,
+      handle: handleApiRequest,
+    });
   }
 }
 
@@ -0,0 +1,152 @@
+/**
+ * Goal Reminders
+ *
+ * Decides when to remind about goals with a deadline:
+ *   before  - REMINDER_LEAD_MINUTES before the deadline (default 60)
+ *   due     - at the deadline
+ *   snoozed - when a snooze (button) runs out
+ * The relay checks every REMINDER_CHECK_SEC and sends reminders to the chat
+ * the goal was set in. Which reminders went out is kept in
+ * RELAY_DIR/reminders.json, so restarts don't repeat them.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { deadlineTime, formatDeadline } from "./deadlines.ts";
+import type { MemoryItem } from "./memory.ts";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
+const REMINDERS_FILE = join(RELAY_DIR, "reminders.json");
+
+const LEAD_MS = Number(process.env.REMINDER_LEAD_MINUTES || 60) * 60 * 1000;
+const SNOOZE_MS = Number(process.env.REMINDER_SNOOZE_MINUTES || 60) * 60 * 1000;
+export const REMINDER_CHECK_MS = Number(process.env.REMINDER_CHECK_SEC || 60) * 1000;
+// Deadlines missed by more than this (e.g. while the relay was down) aren't reminded
+const MISSED_MS = 24 * 60 * 60 * 1000;
+
+export const REMINDER_ACTION_PREFIX = "reminder:";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ReminderKind = "before" | "due" | "snoozed";
+
+export interface Reminder {
+  item: MemoryItem;
+  kind: ReminderKind;
+}
+
+interface ReminderState {
+  sent: ReminderKind[];
+  snoozedUntil?: string;
+}
+
+// ============================================================
+// STORE
+// ============================================================
+
+let state: Record<string, ReminderState> | null = null;
+
+async function loadState(): Promise<Record<string, ReminderState>> {
+  if (state) return state;
+  try {
+    state = JSON.parse(await readFile(REMINDERS_FILE, "utf-8"));
+  } catch {
+    state = {};
+  }
+  return state!;
+}
+
+async function saveState(): Promise<void> {
+  if (!state) return;
+  try {
+    await writeFile(REMINDERS_FILE, JSON.stringify(state, null, 2));
+  } catch (error) {
+    console.error("[Reminders] Save error:", error);
+  }
+}
+
+// ============================================================
+// SCHEDULING
+// ============================================================
+
+/**
+ * Reminders due now for the given open goals. Forgets the state of goals
+ * that are no longer open.
+ */
+export async function getDueReminders(goals: MemoryItem[], now = Date.now()): Promise<Reminder[]> {
+  const data = await loadState();
+  const due: Reminder[] = [];
+  let changed = false;
+
+  const open = new Set(goals.map((g) => g.id));
+  for (const id of Object.keys(data)) {
+    if (!open.has(id)) {
+      delete data[id];
+      changed = true;
+    }
+  }
+
+  for (const item of goals) {
+    const deadline = deadlineTime(item.deadline);
+    if (deadline === null) continue;
+    const entry = data[item.id] || { sent: [] };
+
+    if (entry.snoozedUntil) {
+      if (Date.parse(entry.snoozedUntil) <= now) due.push({ item, kind: "snoozed" });
+      continue;
+    }
+
+    if (now >= deadline) {
+      if (entry.sent.includes("due")) continue;
+      if (now - deadline > MISSED_MS) {
+        // Too late to be useful; the goal shows as overdue instead
+        data[item.id] = { sent: [...entry.sent, "due"] };
+        changed = true;
+        continue;
+      }
+      due.push({ item, kind: "due" });
+    } else if (now >= deadline - LEAD_MS && !entry.sent.includes("before")) {
+      due.push({ item, kind: "before" });
+    }
+  }
+
+  if (changed) await saveState();
+  return due;
+}
+
+export async function markReminderSent(id: string, kind: ReminderKind): Promise<void> {
+  const data = await loadState();
+  const entry = data[id] || { sent: [] };
+  if (kind === "snoozed") delete entry.snoozedUntil;
+  // Reminding at the deadline makes the early reminder moot
+  const sent: ReminderKind[] = kind === "due" ? ["before", "due"] : [kind];
+  entry.sent = [...new Set([...entry.sent, ...sent])];
+  data[id] = entry;
+  await saveState();
+}
+
+/**
+ * Remind about a goal again after the snooze time. Returns when.
+ */
+export async function snoozeReminder(id: string, now = Date.now()): Promise<Date> {
+  const data = await loadState();
+  const until = new Date(now + SNOOZE_MS);
+  data[id] = { sent: data[id]?.sent || [], snoozedUntil: until.toISOString() };
+  await saveState();
+  return until;
+}
+
+export function describeReminder(reminder: Reminder): string {
+  const { item, kind } = reminder;
+  const due = formatDeadline(item.deadline!);
+  if (kind === "before") return `Reminder: "${item.content}" is due ${due}.`;
+  if (kind === "due") return `Due now: "${item.content}" (${due}).`;
+  const overdue = (deadlineTime(item.deadline) ?? Infinity) < Date.now();
+  return `Reminder: "${item.content}" ${overdue ? `was due ${due}` : `is due ${due}`}.`;
+}
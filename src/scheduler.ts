@@ -0,0 +1,246 @@
+/**
+ * Scheduled Jobs
+ *
+ * Jobs the relay runs on cron schedules (see cron.ts), instead of standalone
+ * scripts started by launchd or cron. Defined in config/schedule.json (see
+ * schedule.example.json):
+ *
+ *   {
+ *     "jobs": {
+ *       "morning-briefing": { "schedule": "0 9 * * *", "type": "briefing", "chat": "telegram:123456789" },
+ *       "weekly-review": { "schedule": "0 17 * * fri", "type": "prompt", "prompt": "Review my week" }
+ *     }
+ *   }
+ *
+ * Types:
+ *   briefing - a briefing from the user's goals, deadlines and memory
+ *   checkin  - Claude decides whether a short check-in is worth sending,
+ *              within quiet hours and daily limits (see checkins.ts)
+ *   prompt   - any prompt; the answer is sent to the chat
+ *
+ * A job runs as `user` (default: the chat, i.e. a Telegram private chat)
+ * with that user's memory, profile and role, in the chat's Claude session.
+ * Jobs wait in the chat's message queue, like messages.
+ * Without `chat` jobs go to TELEGRAM_USER_ID.
+ *
+ * The file is re-read on every check. Last runs, pauses and schedules
+ * changed with /jobs are kept in RELAY_DIR/jobs.json.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { parseCron, previousCronRun, nextCronRun } from "./cron.ts";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const PROJECT_ROOT = dirname(dirname(import.meta.path));
+const SCHEDULE_FILE = process.env.SCHEDULE_FILE || join(PROJECT_ROOT, "config", "schedule.json");
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
+const JOBS_FILE = join(RELAY_DIR, "jobs.json");
+
+const TELEGRAM_USER_ID = process.env.TELEGRAM_USER_ID || "";
+
+export const JOB_CHECK_MS = 60 * 1000;
+// A run missed by up to this long (full queue, restart) still happens late
+const LATE_RUN_MS = 15 * 60 * 1000;
+
+export const JOB_TYPES = ["briefing", "checkin", "prompt"] as const;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type JobType = (typeof JOB_TYPES)[number];
+
+/**
+ * How a run ended: sent, nothing to send (e.g. no check-in needed), failed,
+ * or stopped with /stop (nothing sent)
+ */
+export type JobStatus = "sent" | "skipped" | "failed" | "stopped";
+
+export interface Job {
+  name: string;
+  type: JobType;
+  /** Schedule in effect: set with /jobs, or the configured one */
+  schedule: string;
+  /** Schedule from config/schedule.json */
+  configuredSchedule: string;
+  /** Session key of the chat results go to (platform:chatId) */
+  chat: string;
+  /** Who the job runs as (platform:userId) */
+  user: string;
+  prompt?: string;
+  paused: boolean;
+  lastRun: string | null;
+  lastStatus: JobStatus | null;
+  /** Error or note from the last run */
+  lastNote: string | null;
+}
+
+interface JobState {
+  lastRun?: string;
+  lastStatus?: JobStatus;
+  lastNote?: string;
+  paused?: boolean;
+  schedule?: string;
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+let state: Record<string, JobState> | null = null;
+
+async function loadState(): Promise<Record<string, JobState>> {
+  if (state) return state;
+  try {
+    state = JSON.parse(await readFile(JOBS_FILE, "utf-8"));
+  } catch {
+    state = {};
+  }
+  return state!;
+}
+
+async function saveState(): Promise<void> {
+  if (!state) return;
+  try {
+    await writeFile(JOBS_FILE, JSON.stringify(state, null, 2));
+  } catch (error) {
+    console.error("[Jobs] Save error:", error);
+  }
+}
+
+// ============================================================
+// JOBS
+// ============================================================
+
+/**
+ * All valid jobs from config/schedule.json with their state. Invalid
+ * entries are logged and left out.
+ */
+export async function loadJobs(): Promise<Job[]> {
+  let data: any;
+  try {
+    data = JSON.parse(await readFile(SCHEDULE_FILE, "utf-8"));
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") console.error("[Jobs] Could not read schedule:", error?.message || error);
+    return [];
+  }
+
+  const saved = await loadState();
+  const jobs: Job[] = [];
+  for (const [name, entry] of Object.entries<any>(data.jobs || {})) {
+    const problem = checkEntry(entry);
+    if (problem) {
+      console.warn(`[Jobs] "${name}" ${problem}, skipping`);
+      continue;
+    }
+
+    const chat = entry.chat || `telegram:${TELEGRAM_USER_ID}`;
+    const jobState = saved[name] || {};
+    jobs.push({
+      name,
+      type: entry.type,
+      schedule: jobState.schedule || entry.schedule,
+      configuredSchedule: entry.schedule,
+      chat,
+      user: entry.user || chat,
+      prompt: typeof entry.prompt === "string" ? entry.prompt : undefined,
+      paused: jobState.paused ?? entry.paused === true,
+      lastRun: jobState.lastRun || null,
+      lastStatus: jobState.lastStatus || null,
+      lastNote: jobState.lastNote || null,
+    });
+  }
+  return jobs;
+}
+
+function checkEntry(entry: any): string | null {
+  if (!JOB_TYPES.includes(entry?.type)) return `has no valid type (${JOB_TYPES.join(", ")})`;
+  if (typeof entry.schedule !== "string") return "has no schedule";
+  const schedule = parseCron(entry.schedule);
+  if (typeof schedule === "string") return `has a bad schedule: ${schedule}`;
+  if (!entry.chat && !TELEGRAM_USER_ID) return "has no chat";
+  if (entry.type === "prompt" && !entry.prompt) return "has no prompt";
+  return null;
+}
+
+export async function findJob(name: string): Promise<Job | null> {
+  const wanted = name.trim().toLowerCase();
+  return (await loadJobs()).find((job) => job.name.toLowerCase() === wanted) ?? null;
+}
+
+/**
+ * Jobs whose latest scheduled time (up to LATE_RUN_MS ago) hasn't run yet.
+ */
+export async function getDueJobs(now = new Date()): Promise<Job[]> {
+  const due: Job[] = [];
+  for (const job of await loadJobs()) {
+    if (job.paused) continue;
+    const schedule = parseCron(job.schedule);
+    if (typeof schedule === "string") continue;
+
+    const scheduled = previousCronRun(schedule, now, LATE_RUN_MS);
+    if (scheduled && (!job.lastRun || Date.parse(job.lastRun) < scheduled.getTime())) due.push(job);
+  }
+  return due;
+}
+
+/**
+ * Next scheduled run, or null if paused or never.
+ */
+export function nextJobRun(job: Job, now = new Date()): Date | null {
+  const schedule = parseCron(job.schedule);
+  if (job.paused || typeof schedule === "string") return null;
+  return nextCronRun(schedule, now);
+}
+
+export async function recordJobRun(name: string, status: JobStatus, note?: string): Promise<void> {
+  const data = await loadState();
+  data[name] = {
+    ...data[name],
+    lastRun: new Date().toISOString(),
+    lastStatus: status,
+    lastNote: note || undefined,
+  };
+  await saveState();
+}
+
+/**
+ * Pause or resume a job. Returns the job, or an error message.
+ */
+export async function setJobPaused(name: string, paused: boolean): Promise<Job | string> {
+  const job = await findJob(name);
+  if (!job) return `No job named "${name}". See /jobs.`;
+
+  const data = await loadState();
+  data[job.name] = { ...data[job.name], paused };
+  await saveState();
+  return { ...job, paused };
+}
+
+/**
+ * Change a job's schedule, or go back to the configured one with null.
+ * Returns the job, or an error message.
+ */
+export async function setJobSchedule(name: string, expression: string | null): Promise<Job | string> {
+  const job = await findJob(name);
+  if (!job) return `No job named "${name}". See /jobs.`;
+
+  let schedule = job.configuredSchedule;
+  if (expression !== null) {
+    const parsed = parseCron(expression);
+    if (typeof parsed === "string") return `Invalid schedule: ${parsed}`;
+    schedule = parsed.source;
+  }
+
+  const data = await loadState();
+  const entry = { ...data[job.name] };
+  if (schedule === job.configuredSchedule) delete entry.schedule;
+  else entry.schedule = schedule;
+  data[job.name] = entry;
+  await saveState();
+  return { ...job, schedule };
+}
@@ -0,0 +1,283 @@
+/**
+ * Session Store for Discord-Telegram Relay
+ *
+ * Keeps one Claude session per conversation instead of a single global one.
+ * Conversations are keyed by platform + chat/channel (+ optional thread), so a
+ * Telegram DM, each Discord or Slack channel and each DM resume their own
+ * Claude session.
+ *
+ * Stored as JSON in RELAY_DIR/sessions.json:
+ *   { "sessions": { "telegram:12345": { sessionId, lastActivity, model, usage, history }, ... } }
+ *
+ * history keeps previous session IDs of the conversation so /resume can
+ * switch back to one of them.
+ *
+ * With workspaces configured, each conversation has a session per workspace
+ * ("telegram:12345@blog"); the chat's selected workspace is kept under
+ * "workspaces".
+ */
+
+import { writeFile, readFile } from "fs/promises";
+import { join } from "path";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
+const SESSIONS_FILE = join(RELAY_DIR, "sessions.json");
+const MAX_HISTORY = 10;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type Platform = "telegram" | "discord" | "slack" | "api";
+
+/**
+ * Identifies where a message came from.
+ * threadId is set for Telegram forum topics, Discord threads and Slack threads.
+ * workspace scopes the session to a project workspace.
+ */
+export interface SessionKey {
+  platform: Platform;
+  chatId: string;
+  threadId?: string;
+  workspace?: string;
+}
+
+export interface SessionState {
+  sessionId: string | null;
+  lastActivity: string;
+  /** Model pinned with /model (kept across /new and /resume) */
+  model?: string;
+  /** Model used for the latest request */
+  lastModel?: string;
+  /** Totals for the current session, from the CLI's result events */
+  usage?: SessionUsage;
+  history?: SessionSummary[];
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  lastActivity: string;
+  usage?: SessionUsage;
+}
+
+export interface SessionUsage {
+  requests: number;
+  turns: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+interface SessionStore {
+  sessions: Record<string, SessionState>;
+  /** Selected workspace per conversation */
+  workspaces: Record<string, string>;
+}
+
+// ============================================================
+// STORE
+// ============================================================
+
+let store: SessionStore | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+export function sessionKeyToString(key: SessionKey): string {
+  const parts: string[] = [key.platform, key.chatId];
+  if (key.threadId) parts.push(key.threadId);
+  const id = parts.join(":");
+  return key.workspace ? `${id}@${key.workspace}` : id;
+}
+
+/**
+ * Inverse of sessionKeyToString.
+ */
+export function parseSessionKey(key: string): SessionKey {
+  const [id, workspace] = key.split("@");
+  const [platform, chatId, threadId] = id.split(":");
+  return {
+    platform: platform as Platform,
+    chatId,
+    ...(threadId ? { threadId } : {}),
+    ...(workspace ? { workspace } : {}),
+  };
+}
+
+async function loadStore(): Promise<SessionStore> {
+  if (store) return store;
+
+  try {
+    const content = await readFile(SESSIONS_FILE, "utf-8");
+    const data = JSON.parse(content);
+    store = { sessions: data.sessions || {}, workspaces: data.workspaces || {} };
+  } catch {
+    store = { sessions: {}, workspaces: {} };
+  }
+
+  return store;
+}
+
+async function persistStore(): Promise<void> {
+  // Serialize writes so concurrent saves don't interleave on disk
+  writeChain = writeChain.then(async () => {
+    if (!store) return;
+    await writeFile(SESSIONS_FILE, JSON.stringify(store, null, 2));
+  }).catch((error) => {
+    console.error("[Sessions] Save error:", error);
+  });
+  return writeChain;
+}
+
+/**
+ * Get the session for a conversation.
+ * Returns a fresh state (no sessionId) if the conversation has none yet.
+ */
+export async function loadSession(key: SessionKey): Promise<SessionState> {
+  const data = await loadStore();
+  const existing = data.sessions[sessionKeyToString(key)];
+  if (existing) return { ...existing };
+  return { sessionId: null, lastActivity: new Date().toISOString() };
+}
+
+export async function saveSession(key: SessionKey, state: SessionState): Promise<void> {
+  const data = await loadStore();
+  data.sessions[sessionKeyToString(key)] = { ...state };
+  await persistStore();
+}
+
+/**
+ * Workspace selected for a conversation (any workspace on the key is ignored).
+ */
+export async function getChatWorkspace(key: SessionKey): Promise<string | null> {
+  const data = await loadStore();
+  return data.workspaces[sessionKeyToString({ ...key, workspace: undefined })] || null;
+}
+
+export async function setChatWorkspace(key: SessionKey, workspace: string): Promise<void> {
+  const data = await loadStore();
+  data.workspaces[sessionKeyToString({ ...key, workspace: undefined })] = workspace;
+  await persistStore();
+}
+
+// ============================================================
+// SESSION CONTROL
+// ============================================================
+
+/**
+ * Start a fresh Claude session for a conversation.
+ * The current session (if any) is moved to history so it can be resumed.
+ */
+export async function startNewSession(key: SessionKey): Promise<SessionState> {
+  const state = await loadSession(key);
+  const history = archive(state);
+
+  const fresh: SessionState = {
+    sessionId: null,
+    lastActivity: new Date().toISOString(),
+    model: state.model,
+    history,
+  };
+  await saveSession(key, fresh);
+  return fresh;
+}
+
+/**
+ * List the current and previous sessions of a conversation, most recent first.
+ */
+export async function listSessions(key: SessionKey): Promise<SessionSummary[]> {
+  const state = await loadSession(key);
+  const all: SessionSummary[] = [];
+
+  if (state.sessionId) {
+    all.push({ sessionId: state.sessionId, lastActivity: state.lastActivity, usage: state.usage });
+  }
+  all.push(...(state.history || []));
+
+  return all.sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+}
+
+/**
+ * Switch a conversation back to a previous session.
+ * Accepts a full session ID or a unique prefix. Returns null if no match.
+ */
+export async function resumeSession(key: SessionKey, idOrPrefix: string): Promise<SessionState | null> {
+  const state = await loadSession(key);
+  if (state.sessionId?.startsWith(idOrPrefix)) return state;
+
+  const matches = (state.history || []).filter((h) => h.sessionId.startsWith(idOrPrefix));
+  if (matches.length !== 1) return null;
+
+  const target = matches[0];
+  const history = archive(state).filter((h) => h.sessionId !== target.sessionId);
+
+  const resumed: SessionState = {
+    sessionId: target.sessionId,
+    lastActivity: new Date().toISOString(),
+    model: state.model,
+    usage: target.usage,
+    history,
+  };
+  await saveSession(key, resumed);
+  return resumed;
+}
+
+/**
+ * Record a finished CLI invocation on the conversation's session.
+ * A different session ID (new or forked session) restarts the totals.
+ */
+export async function recordSessionRun(
+  key: SessionKey,
+  sessionId: string,
+  run: { turns: number; costUsd: number; durationMs: number; model?: string | null }
+): Promise<SessionState> {
+  const state = await loadSession(key);
+
+  if (state.sessionId !== sessionId) {
+    // Keep the replaced session resumable
+    state.history = archive(state).filter((h) => h.sessionId !== sessionId);
+    state.sessionId = sessionId;
+    state.usage = undefined;
+  }
+
+  const usage = state.usage || { requests: 0, turns: 0, costUsd: 0, durationMs: 0 };
+  state.usage = {
+    requests: usage.requests + 1,
+    turns: usage.turns + run.turns,
+    costUsd: usage.costUsd + run.costUsd,
+    durationMs: usage.durationMs + run.durationMs,
+  };
+  state.lastModel = run.model || undefined;
+  state.lastActivity = new Date().toISOString();
+
+  await saveSession(key, state);
+  return state;
+}
+
+/**
+ * Pin a model for a conversation, or unpin it with null.
+ */
+export async function setSessionModel(key: SessionKey, model: string | null): Promise<void> {
+  const state = await loadSession(key);
+  state.model = model || undefined;
+  await saveSession(key, state);
+}
+
+/**
+ * Forget the current session ID (e.g. the CLI no longer knows it).
+ */
+export async function clearSessionId(key: SessionKey): Promise<void> {
+  const state = await loadSession(key);
+  state.sessionId = null;
+  state.usage = undefined;
+  await saveSession(key, state);
+}
+
+function archive(state: SessionState): SessionSummary[] {
+  const history = [...(state.history || [])];
+  if (state.sessionId) {
+    history.unshift({ sessionId: state.sessionId, lastActivity: state.lastActivity, usage: state.usage });
+  }
+  return history.slice(0, MAX_HISTORY);
+}
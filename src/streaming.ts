@@ -0,0 +1,175 @@
+/**
+ * Streaming Module for Discord-Telegram Relay
+ *
+ * Parses Claude CLI `--output-format stream-json` output incrementally and
+ * throttles progressive message edits so long answers show up as they are
+ * written instead of after the process exits.
+ *
+ * Stream events (one JSON object per line):
+ *   { type: "system", subtype: "init", session_id }
+ *   { type: "assistant", message: { content: [{ type: "text", text } | { type: "tool_use", name }] } }
+ *   { type: "result", subtype, result, session_id, is_error,
+ *     total_cost_usd, duration_ms, num_turns, usage }
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface StreamEvent {
+  type: string;
+  subtype?: string;
+  session_id?: string;
+  message?: { content?: Array<{ type: string; text?: string; name?: string }> };
+  result?: string;
+  is_error?: boolean;
+  [key: string]: unknown;
+}
+
+/** Totals reported by the result event of one CLI invocation */
+export interface RunStats {
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface StreamResult {
+  text: string;
+  sessionId: string | null;
+  isError: boolean;
+  result: StreamEvent | null;
+  /** Null if the stream ended without a result event (killed, crashed) */
+  stats: RunStats | null;
+}
+
+// ============================================================
+// STREAM PARSING
+// ============================================================
+
+/**
+ * Read a stream-json stdout, calling onProgress with the text produced so far.
+ * Resolves with the final text once the stream ends.
+ */
+export async function readClaudeStream(
+  stdout: ReadableStream<Uint8Array>,
+  onProgress?: (text: string) => void
+): Promise<StreamResult> {
+  const reader = stdout.getReader();
+  const decoder = new TextDecoder();
+
+  let buffer = "";
+  let text = "";
+  let sessionId: string | null = null;
+  let result: StreamEvent | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+
+    let event: StreamEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      // Non-JSON output (warnings etc.) is ignored
+      return;
+    }
+
+    if (event.session_id) sessionId = event.session_id;
+
+    if (event.type === "assistant") {
+      for (const block of event.message?.content || []) {
+        if (block.type === "text" && block.text) {
+          text += (text ? "\n\n" : "") + block.text;
+          onProgress?.(text);
+        } else if (block.type === "tool_use" && block.name) {
+          onProgress?.(`${text}${text ? "\n\n" : ""}[Using ${block.name}...]`);
+        }
+      }
+    } else if (event.type === "result") {
+      result = event;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+
+  const final = result as StreamEvent | null;
+  return {
+    // The result event carries the final answer; fall back to streamed text
+    text: typeof final?.result === "string" ? final.result : text,
+    sessionId,
+    isError: final?.is_error === true,
+    result: final,
+    stats: final ? parseStats(final) : null,
+  };
+}
+
+function parseStats(event: StreamEvent): RunStats {
+  const usage = (event.usage || {}) as Record<string, number | undefined>;
+  const num = (value: unknown) => (typeof value === "number" ? value : 0);
+
+  return {
+    // Older CLI versions report cost_usd
+    costUsd: num(event.total_cost_usd ?? event.cost_usd),
+    durationMs: num(event.duration_ms),
+    numTurns: num(event.num_turns),
+    inputTokens:
+      num(usage.input_tokens) + num(usage.cache_creation_input_tokens) + num(usage.cache_read_input_tokens),
+    outputTokens: num(usage.output_tokens),
+  };
+}
+
+// ============================================================
+// THROTTLED EDITS
+// ============================================================
+
+/**
+ * Wrap a message edit function so it runs at most once per interval.
+ * Only the latest text is sent; intermediate updates are dropped.
+ */
+export function createThrottledEditor(
+  edit: (text: string) => Promise<unknown>,
+  intervalMs = 1500
+) {
+  let pending: string | null = null;
+  let lastSent = "";
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const send = () => {
+    timer = null;
+    const text = pending;
+    pending = null;
+    if (text === null || text === lastSent) return;
+
+    lastSent = text;
+    inFlight = inFlight
+      .then(() => edit(text))
+      .then(() => {})
+      .catch((error) => console.error("[Stream] Edit error:", error?.message || error));
+  };
+
+  return {
+    update(text: string) {
+      pending = text;
+      if (!timer) timer = setTimeout(send, intervalMs);
+    },
+
+    /** Drop pending updates and wait for in-flight edits to settle. */
+    async stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending = null;
+      await inFlight;
+    },
+  };
+}
@@ -8,6 +8,7 @@ import { spawn } from "bun";
 import { writeFile, readFile, unlink } from "fs/promises";
 import { join } from "path";
 import { randomUUID } from "crypto";
+import { trackProcess } from "./processes.ts";
 
 const VOICE_PROVIDER = process.env.VOICE_PROVIDER || "";
 
@@ -63,10 +64,10 @@ async function transcribeLocal(audioBuffer: Buffer): Promise<string> {
     await writeFile(oggPath, audioBuffer);
 
     // Convert OGG → WAV via ffmpeg
-    const ffmpeg = spawn(
+    const ffmpeg = trackProcess(spawn(
       ["ffmpeg", "-i", oggPath, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wavPath, "-y"],
       { stdout: "pipe", stderr: "pipe" }
-    );
+    ));
     const ffmpegExit = await ffmpeg.exited;
     if (ffmpegExit !== 0) {
       const stderr = await new Response(ffmpeg.stderr).text();
@@ -74,10 +75,10 @@ async function transcribeLocal(audioBuffer: Buffer): Promise<string> {
     }
 
     // Transcribe via whisper.cpp
-    const whisper = spawn(
+    const whisper = trackProcess(spawn(
       [whisperBinary, "--model", modelPath, "--file", wavPath, "--output-txt", "--output-file", join(tmpDir, `voice_${timestamp}`), "--no-prints"],
       { stdout: "pipe", stderr: "pipe" }
-    );
+    ));
     const whisperExit = await whisper.exited;
     if (whisperExit !== 0) {
       const stderr = await new Response(whisper.stderr).text();
@@ -0,0 +1,267 @@
+/**
+ * Usage Accounting and Budgets
+ *
+ * Every Claude CLI invocation is appended to RELAY_DIR/usage.jsonl with its
+ * conversation, duration, cost and tokens (from the CLI's result event).
+ * Totals are computed per day / 7 days / month in USER_TIMEZONE.
+ *
+ * Optional budgets:
+ *   DAILY_BUDGET_USD / MONTHLY_BUDGET_USD  - 0 or unset = no limit
+ *   BUDGET_WARN_PERCENT                    - warn once per period at this share (default 80)
+ * When a budget is used up, only urgent requests (starting with "!urgent")
+ * are accepted.
+ */
+
+import { appendFile, readFile } from "fs/promises";
+import { join } from "path";
+import type { Platform } from "./sessions.ts";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const RELAY_DIR = process.env.RELAY_DIR || join(process.env.HOME || "~", ".discord-telegram-relay");
+const USAGE_FILE = join(RELAY_DIR, "usage.jsonl");
+const USER_TIMEZONE = process.env.USER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const DAILY_BUDGET_USD = Number(process.env.DAILY_BUDGET_USD || 0);
+const MONTHLY_BUDGET_USD = Number(process.env.MONTHLY_BUDGET_USD || 0);
+const BUDGET_WARN_PERCENT = Number(process.env.BUDGET_WARN_PERCENT || 80);
+
+const URGENT_PREFIX = /^\s*!urgent\b\s*/i;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type UsageStatus = "ok" | "error" | "stopped" | "timeout";
+
+export interface UsageRecord {
+  timestamp: string;
+  platform: Platform | "unknown";
+  /** Conversation key (see sessionKeyToString) */
+  chat: string;
+  sessionId: string | null;
+  /** --model value (null = CLI default) */
+  model: string | null;
+  workspace: string | null;
+  /** Who asked (platform:userId) */
+  user: string | null;
+  status: UsageStatus;
+  durationMs: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  turns: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+}
+
+export interface UsageReport {
+  today: UsageTotals;
+  week: UsageTotals;
+  month: UsageTotals;
+  /** This month's totals per platform */
+  byPlatform: Record<string, UsageTotals>;
+}
+
+interface BudgetState {
+  name: "daily" | "monthly";
+  /** Day or month the budget applies to, e.g. "2026-03-14" */
+  period: string;
+  limit: number;
+  spent: number;
+}
+
+// ============================================================
+// RECORDS
+// ============================================================
+
+let records: UsageRecord[] | null = null;
+
+async function loadRecords(): Promise<UsageRecord[]> {
+  if (records) return records;
+
+  records = [];
+  try {
+    const content = await readFile(USAGE_FILE, "utf-8");
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip a partially written line
+      }
+    }
+  } catch {
+    // No usage recorded yet
+  }
+
+  return records;
+}
+
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  const all = await loadRecords();
+  all.push(record);
+
+  try {
+    await appendFile(USAGE_FILE, JSON.stringify(record) + "\n");
+  } catch (error) {
+    console.error("[Usage] Save error:", error);
+  }
+}
+
+// ============================================================
+// REPORTS
+// ============================================================
+
+/** Local calendar date (YYYY-MM-DD) in USER_TIMEZONE */
+function localDate(date: Date): string {
+  return date.toLocaleDateString("en-CA", { timeZone: USER_TIMEZONE });
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, costUsd: 0, inputTokens: 0, outputTokens: 0, durationMs: 0 };
+}
+
+function add(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  totals.costUsd += record.costUsd;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.durationMs += record.durationMs;
+}
+
+export async function getUsageReport(now = new Date()): Promise<UsageReport> {
+  const all = await loadRecords();
+  const today = localDate(now);
+  const weekStart = localDate(new Date(now.getTime() - 6 * 24 * 60 * 60 * 1000));
+  const month = today.substring(0, 7);
+
+  const report: UsageReport = { today: emptyTotals(), week: emptyTotals(), month: emptyTotals(), byPlatform: {} };
+
+  for (const record of all) {
+    const day = localDate(new Date(record.timestamp));
+    if (day === today) add(report.today, record);
+    if (day >= weekStart && day <= today) add(report.week, record);
+    if (day.startsWith(month)) {
+      add(report.month, record);
+      add((report.byPlatform[record.platform] ||= emptyTotals()), record);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * What one user (platform:userId) has spent today.
+ */
+export async function getUserSpendToday(user: string, now = new Date()): Promise<number> {
+  const today = localDate(now);
+  let spent = 0;
+  for (const record of await loadRecords()) {
+    if (record.user === user && localDate(new Date(record.timestamp)) === today) spent += record.costUsd;
+  }
+  return spent;
+}
+
+// ============================================================
+// BUDGETS
+// ============================================================
+
+// Thresholds already announced, e.g. "daily:2026-03-14:warn"
+const warned = new Set<string>();
+
+export function budgetsConfigured(): boolean {
+  return DAILY_BUDGET_USD > 0 || MONTHLY_BUDGET_USD > 0;
+}
+
+async function budgetStates(now: Date): Promise<BudgetState[]> {
+  if (!budgetsConfigured()) return [];
+
+  const report = await getUsageReport(now);
+  const today = localDate(now);
+  const budgets: BudgetState[] = [
+    { name: "daily", period: today, limit: DAILY_BUDGET_USD, spent: report.today.costUsd },
+    { name: "monthly", period: today.substring(0, 7), limit: MONTHLY_BUDGET_USD, spent: report.month.costUsd },
+  ];
+  return budgets.filter((b) => b.limit > 0);
+}
+
+function summary(budget: BudgetState): string {
+  return `${formatUsd(budget.spent)} of ${formatUsd(budget.limit)}`;
+}
+
+/**
+ * Returns why new requests are refused, or null if spend is within budget.
+ */
+export async function budgetExceeded(now = new Date()): Promise<string | null> {
+  for (const budget of await budgetStates(now)) {
+    if (budget.spent >= budget.limit) return `The ${budget.name} budget is used up (${summary(budget)}).`;
+  }
+  return null;
+}
+
+/**
+ * Warnings for budget thresholds crossed since the last call.
+ * Each warning is returned only once per day/month.
+ */
+export async function takeBudgetWarnings(now = new Date()): Promise<string[]> {
+  const warnings: string[] = [];
+
+  for (const budget of await budgetStates(now)) {
+    const percent = (budget.spent / budget.limit) * 100;
+    const exceeded = budget.spent >= budget.limit;
+    if (percent < BUDGET_WARN_PERCENT && !exceeded) continue;
+
+    const key = `${budget.name}:${budget.period}:${exceeded ? "exceeded" : "warn"}`;
+    if (warned.has(key)) continue;
+    warned.add(key);
+
+    warnings.push(exceeded
+      ? `Budget notice: the ${budget.name} budget is used up (${summary(budget)}). ` +
+        `Until it resets, only messages starting with !urgent are answered.`
+      : `Budget notice: ${Math.floor(percent)}% of the ${budget.name} budget used (${summary(budget)}).`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Split off the "!urgent" prefix that lets a message through an exhausted budget.
+ */
+export function parseUrgent(text: string): { urgent: boolean; text: string } {
+  if (!URGENT_PREFIX.test(text)) return { urgent: false, text };
+  return { urgent: true, text: text.replace(URGENT_PREFIX, "") };
+}
+
+export function describeBudgets(report: UsageReport): string[] {
+  const lines: string[] = [];
+  if (DAILY_BUDGET_USD > 0) {
+    lines.push(`Daily budget: ${formatUsd(report.today.costUsd)} / ${formatUsd(DAILY_BUDGET_USD)}`);
+  }
+  if (MONTHLY_BUDGET_USD > 0) {
+    lines.push(`Monthly budget: ${formatUsd(report.month.costUsd)} / ${formatUsd(MONTHLY_BUDGET_USD)}`);
+  }
+  return lines;
+}
+
+// ============================================================
+// FORMATTING
+// ============================================================
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+export function formatTotals(totals: UsageTotals): string {
+  const tokens = totals.inputTokens + totals.outputTokens;
+  const tokenText = tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+  return `${formatUsd(totals.costUsd)} (${totals.requests} request${totals.requests === 1 ? "" : "s"}, ${tokenText} tokens)`;
+}
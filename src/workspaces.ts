@@ -0,0 +1,107 @@
+/**
+ * Workspace Registry
+ *
+ * Named project directories the bot can work in, selectable per chat with
+ * /project. Defined in config/workspaces.json (see workspaces.example.json):
+ *
+ *   {
+ *     "default": "relay",
+ *     "workspaces": {
+ *       "relay": { "dir": "~/code/relay", "allowedTools": ["Read", "Edit"], "deniedTools": ["WebFetch"], "model": "sonnet" }
+ *     }
+ *   }
+ *
+ * The file is re-read on each lookup, so edits apply without a restart.
+ * Without it the relay works in PROJECT_DIR as before.
+ */
+
+import { readFile, stat } from "fs/promises";
+import { dirname, join, resolve } from "path";
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+const PROJECT_ROOT = dirname(dirname(import.meta.path));
+const WORKSPACES_FILE = process.env.WORKSPACES_FILE || join(PROJECT_ROOT, "config", "workspaces.json");
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface Workspace {
+  name: string;
+  /** Absolute working directory for Claude */
+  dir: string;
+  description?: string;
+  /** Added to the tool policy (see permissions.ts) */
+  allowedTools?: string[];
+  deniedTools?: string[];
+  /** Default model for chats in this workspace */
+  model?: string;
+}
+
+export interface WorkspaceRegistry {
+  workspaces: Workspace[];
+  defaultName: string | null;
+}
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+function expandHome(path: string): string {
+  if (path === "~" || path.startsWith("~/")) return join(process.env.HOME || "", path.slice(1));
+  return resolve(PROJECT_ROOT, path);
+}
+
+/**
+ * Load the registry. Returns an empty registry if the file is missing or invalid.
+ */
+export async function loadWorkspaces(): Promise<WorkspaceRegistry> {
+  let data: any;
+  try {
+    data = JSON.parse(await readFile(WORKSPACES_FILE, "utf-8"));
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") console.error("[Workspaces] Could not read registry:", error?.message || error);
+    return { workspaces: [], defaultName: null };
+  }
+
+  const workspaces: Workspace[] = [];
+  for (const [name, entry] of Object.entries<any>(data.workspaces || {})) {
+    if (!entry?.dir) {
+      console.warn(`[Workspaces] "${name}" has no dir, skipping`);
+      continue;
+    }
+    workspaces.push({
+      name,
+      dir: expandHome(entry.dir),
+      description: entry.description,
+      allowedTools: Array.isArray(entry.allowedTools) ? entry.allowedTools : undefined,
+      deniedTools: Array.isArray(entry.deniedTools) ? entry.deniedTools : undefined,
+      model: entry.model,
+    });
+  }
+
+  const defaultName = workspaces.some((w) => w.name === data.default) ? data.default : workspaces[0]?.name ?? null;
+  return { workspaces, defaultName };
+}
+
+/**
+ * Resolve a chat's workspace: its selection if still configured, else the
+ * registry default. Returns null when no registry is configured.
+ */
+export async function resolveWorkspace(selected?: string | null): Promise<Workspace | null> {
+  const registry = await loadWorkspaces();
+  return registry.workspaces.find((w) => w.name === selected) ||
+    registry.workspaces.find((w) => w.name === registry.defaultName) ||
+    null;
+}
+
+export async function workspaceDirExists(workspace: Workspace): Promise<boolean> {
+  try {
+    return (await stat(workspace.dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}